@@ -1,8 +1,18 @@
+import { Alphabet, countBits, detectAlphabet, residueMask, reverseComplement } from "./Alphabet";
+import { AlignmentMatrix, E_EXTENDS, F_EXTENDS, FROM_DIAGONAL, FROM_LEFT, FROM_MASK, FROM_STOP, previewSampler, type BestCell, type ScoreMatrixPreview, type ScoreRow } from "./DynamicProgramming";
+import { SequenceParseError } from "./Fasta";
+import { parseSequences } from "./SequenceFormats";
+import { defaultSeedParameters, findSeedChains, maxWordSize, type SeedParameters } from "./SeedAndExtend";
+import { ScoringPresets, type ScoringScheme } from "./Scoring";
+import { bitScore, eValue, karlinAltschul, type EmpiricalSignificance, type KarlinAltschul, type Significance } from "./Statistics";
+
 export enum Result {
     NO_MATCH ,
     B_NOMATCH ,
     A_NOMATCH,
-    GOOD_MATCH
+    GOOD_MATCH,
+    /** IUPAC codes that may stand for the same residue (like N and A) */
+    AMBIGUOUS_MATCH
 }
 
 export type ResidueResult = {
@@ -14,220 +24,638 @@ export type ResidueResult = {
 export type Sequence = {
     name:string 
     sequence:string
+    /** Phred quality of each residue, as FASTQ writes it (ASCII - 33). Only for reads that came from FASTQ */
+    quality?:string
+}
+
+/**
+ * Which strand of a DNA sequence was aligned.
+ */
+export enum StrandSense {
+    /** The sequence as given */
+    Plus,
+    /** Its reverse complement */
+    Minus
 }
 
 export type SequenceStats = {
     name:string
     length:number 
+    /** 
+     * First and last aligned residue, in the coordinates of the sequence as given. 
+     * On the minus strand the alignment runs backwards, so `start > end` (like BLAST reports it)
+     */
     start:number
     end:number
-
+    strand:StrandSense
 }
 export type AlignmentStats = {
+    /** Raw score of the alignment, in the units of the scoring scheme */
+    score:number
     permutations:number 
     alignmentLength:number
     alignmentMatchPercent:number
+    /** Residues aligned against a gap */
+    gaps:number
+    alphabet:Alphabet
+    scoring:ScoringScheme
+    mode:AlignmentMode
     sequence1:SequenceStats
     sequence2:SequenceStats
+    /** Local alignments only, and only if the scoring has Karlin–Altschul statistics (random sequences must score negative on average) */
+    significance?:Significance
+    /** Best hit only, if `AlignerOptions.shuffles` was set */
+    empirical?:EmpiricalSignificance
+    /** Set if the alignment was found by seed-and-extend (`AlignerOptions.heuristic`), with the parameters it used: it may miss what the full search finds */
+    heuristic?:SeedParameters
+}
+
+/**
+ * One of the local alignments found, see `AlignerOptions.maxHits`
+ */
+export type AlignmentHit = {
+    alignment:ResidueResult[]
+    stats:AlignmentStats
+}
+
+/**
+ * Whether there is an alignment to show
+ */
+export enum AlignmentOutcome {
+    Aligned,
+    /** Local mode: no pair of residues scores above 0, so there is nothing to align. `hits` is empty and so is `alignment`. */
+    NoSignificantAlignment,
+}
+
+/**
+ * What an alignment produced, as plain data (so it can come back from a worker, see `alignAsync`)
+ */
+export type AlignmentResult = {
+    outcome:AlignmentOutcome
+    sequence1:Sequence
+    sequence2:Sequence
+    /** Same as `hits[0].alignment` (empty if there's no alignment) */
+    alignment:ResidueResult[]
+    /** Same as `hits[0].stats`. Without an alignment: the parameters, a score of 0 and positions of -1 */
+    stats:AlignmentStats
+    /** Every alignment found, best score first. Only local alignments can have more than one. */
+    hits:AlignmentHit[]
+    /** The scores of the matrix the best hit came from (its strand), if `AlignerOptions.scorePreview` was set */
+    scoreMatrix?:ScoreMatrixPreview
+}
+
+/**
+ * Options or sequences the Aligner can't work with (like an empty sequence or a negative gap penalty)
+ */
+export class AlignmentError extends Error {
+    constructor( message:string ) {
+        super(message);
+        this.name = "AlignmentError";
+    }
+}
+
+/**
+ * Which parts of the sequences must be aligned.
+ */
+export enum AlignmentMode {
+    /** Smith–Waterman: only the best matching region of both sequences */
+    Local,
+    /** Needleman–Wunsch: both sequences end to end */
+    Global,
+    /** Glocal/semi-global: sequence 2 end to end, somewhere inside sequence 1 (end gaps of sequence 1 are free). Like a read against a reference. */
+    GlocalIn1,
+    /** Glocal/semi-global: sequence 1 end to end, somewhere inside sequence 2 (end gaps of sequence 2 are free) */
+    GlocalIn2,
+    /** End gaps of both sequences are free: a suffix of one overlapping a prefix of the other, or one containing the other */
+    Overlap,
+}
+
+/**
+ * Whether the leading and trailing residues of sequence 1 and sequence 2 may be left out for free.
+ */
+export function freeEndGaps( mode:AlignmentMode ) : [ boolean, boolean ] {
+    switch( mode )
+    {
+        case AlignmentMode.GlocalIn1: return [ true, false ];
+        case AlignmentMode.GlocalIn2: return [ false, true ];
+        case AlignmentMode.Overlap: return [ true, true ];
+        default: return [ false, false ];
+    }
+}
+
+/**
+ * Compares 2 residues (as char codes), ignoring case. Ambiguity codes that may stand for the same residue are an ambiguous match.
+ */
+function compareResidues( a:number, b:number, alphabet:Alphabet ) {
+    const maskA = residueMask(a, alphabet);
+    const maskB = residueMask(b, alphabet);
+
+    if( maskA && maskB )
+    {
+        if( !(maskA & maskB) ) return Result.NO_MATCH;
+        return maskA==maskB && countBits(maskA)==1 ? Result.GOOD_MATCH : Result.AMBIGUOUS_MATCH;
+    }
+
+    return String.fromCharCode(a).toUpperCase()==String.fromCharCode(b).toUpperCase() ? Result.GOOD_MATCH : Result.NO_MATCH;
+}
+
+export type AlignerOptions = {
+    /** Detected from the residues if not set */
+    alphabet?:Alphabet
+    /** Defaults to `ScoringPresets.default` for nucleotides and `ScoringPresets.blastp` for proteins */
+    scoring?:ScoringScheme
+    /** Defaults to `AlignmentMode.Local` */
+    mode?:AlignmentMode
+    /** 
+     * Matrices with more cells than this are aligned in linear-ish memory (checkpoints), trading memory for a second pass over the rows it traces back through. 
+     * Defaults to 2^26 cells (64MB of traceback)
+     */
+    linearMemoryAbove?:number
+    /** 
+     * Also align sequence 1 against the reverse complement of sequence 2 and keep the best scoring of both. 
+     * Defaults to true. Ignored for proteins.
+     */
+    bothStrands?:boolean
+    /** 
+     * Local mode only: up to how many alignments to report (Waterman–Eggert). After each one the matrix is filled again 
+     * without the pairs of residues already aligned, so the next best alignment that doesn't intersect the previous ones shows up.
+     * Each extra hit costs a full pass over the matrix. Defaults to 1.
+     */
+    maxHits?:number
+    /** 
+     * Local mode only: realign sequence 1 against this many shuffles of sequence 2 to get an empirical p-value of the best hit, 
+     * which doesn't depend on the scoring having known statistics. Each one costs a full alignment. Defaults to 0.
+     */
+    shuffles?:number
+    /**
+     * Local mode only: instead of filling the whole matrix, look for alignments by seed-and-extend (see `findSeedChains`): words of the longer sequence are indexed,
+     * matching words of the other one are chained along diagonals, and only bands around the chains are aligned (`AlignmentMatrix.fillBand`).
+     * Fast enough for a chromosome, but heuristic: alignments without seeds are missed. Unset parameters take `defaultSeedParameters`.
+     * Undefined: the exact search. No score preview nor shuffles then.
+     */
+    heuristic?:Partial<SeedParameters>
+    /** 
+     * Keep a downsampled copy of the scores of the matrix, of at most this many cells per side (see `ScoreMatrixPreview`). 
+     * Defaults to 0: no copy.
+     */
+    scorePreview?:number
+    /** Called while filling the matrix, with the fraction (0 to 1) of rows done */
+    onProgress?:(progress:number)=>void
+}
+
+/**
+ * What `analize` found on one strand
+ */
+type StrandHit = {
+    alignment:ResidueResult[]
+    score:number
+    matches:number
+    gaps:number
+    /** Only on the first hit of the strand, the one filling the untouched matrix */
+    preview?:ScoreMatrixPreview
+}
+
+/**
+ * Sequence 2 as it was aligned: the `iB` of the alignment are indexes of this string, which is the reverse complement on the minus strand.
+ */
+export function alignedSequence2( result:AlignmentResult ) {
+    return result.stats.sequence2.strand==StrandSense.Minus ? reverseComplement(result.sequence2.sequence) : result.sequence2.sequence;
 }
 
 /**
- * Aligns the provided Sequences...
+ * First and last aligned residue of a sequence in the coordinates of the sequence as aligned (the reverse complement on the minus strand), so `start <= end`.
+ */
+export function alignedRange( stats:SequenceStats ) {
+    return stats.strand==StrandSense.Minus 
+        ? { start: stats.length - 1 - stats.start, end: stats.length - 1 - stats.end }
+        : { start: stats.start, end: stats.end };
+}
+
+/**
+ * Aligns the provided Sequences... locally by default, see `AlignmentMode` for the other ways.
  * @link https://en.wikipedia.org/wiki/Smith%E2%80%93Waterman_algorithm 
  */
-export class Aligner {
+export class Aligner implements AlignmentResult {
+    readonly outcome:AlignmentOutcome;
     readonly alignment:ResidueResult[];
+    readonly hits:AlignmentHit[];
+    readonly scoreMatrix?:ScoreMatrixPreview;
     readonly sequence1:Sequence;
     readonly sequence2:Sequence; 
+    readonly alphabet:Alphabet;
+    readonly scoring:ScoringScheme;
+    readonly mode:AlignmentMode;
+    readonly linearMemoryAbove:number;
+    readonly bothStrands:boolean;
+    readonly maxHits:number;
+    readonly shuffles:number;
+    readonly scorePreview:number;
+    readonly heuristic?:SeedParameters;
+    private onProgress?:(progress:number)=>void;
     private _stats!:AlignmentStats;
     get stats(){ return this._stats; }
 
-    constructor(fasta1: string, fasta2: string) {
-        this.sequence1 = this.parseFasta(fasta1);
-        this.sequence2 = this.parseFasta(fasta2); 
+    constructor(fasta1: string, fasta2: string, options:AlignerOptions = {}) {
+        this.sequence1 = this.firstRecord(fasta1, 1);
+        this.sequence2 = this.firstRecord(fasta2, 2); 
+        this.alphabet = options.alphabet ?? detectAlphabet(this.sequence1.sequence, this.sequence2.sequence);
+        this.scoring = { ...( options.scoring ?? ( this.alphabet==Alphabet.Protein ? ScoringPresets.blastp : ScoringPresets.default ) ) };
+        this.mode = options.mode ?? AlignmentMode.Local;
+        this.linearMemoryAbove = options.linearMemoryAbove ?? 2**26;
+        this.bothStrands = ( options.bothStrands ?? true ) && this.alphabet==Alphabet.Nucleotide;
+        this.maxHits = this.mode==AlignmentMode.Local ? Math.max( 1, options.maxHits ?? 1 ) : 1;
+        // parameters left undefined (like a CLI flag that wasn't given) keep their default
+        this.heuristic = this.mode==AlignmentMode.Local && options.heuristic
+                        ? { ...defaultSeedParameters(this.alphabet), ...Object.fromEntries( Object.entries(options.heuristic).filter( ([, value]) => value!==undefined ) ) }
+                        : undefined;
+        this.shuffles = this.mode==AlignmentMode.Local && !this.heuristic ? Math.max( 0, options.shuffles ?? 0 ) : 0;
+        this.scorePreview = this.heuristic ? 0 : options.scorePreview ?? 0;
+        this.onProgress = options.onProgress;
+
+        this.validateScoring();
+        this.validateHeuristic();
+
+        // progress: every pass over a matrix is one unit of work
+        const strands = this.bothStrands ? 2 : 1;
+        const units = strands * ( this.maxHits + this.shuffles );
+        const progressFrom = ( unit:number, span:number ) => (progress:number) => this.onProgress?.( ( unit + progress * span ) / units );
+
+        const hits = this.analize( this.sequence1.sequence, this.sequence2.sequence, progressFrom(0, this.maxHits) )
+                        .map( hit => ({ hit, strand: StrandSense.Plus }) );
+
+        if( this.bothStrands )
+        {
+            const minus = this.analize( this.sequence1.sequence, reverseComplement(this.sequence2.sequence), progressFrom(this.maxHits, this.maxHits) );
+            hits.push( ...minus.map( hit => ({ hit, strand: StrandSense.Minus }) ) );
+        }
 
-        this.alignment = this.analize( this.sequence1.sequence, this.sequence2.sequence ); 
+        // stable sort: on a tie the plus strand wins
+        hits.sort( (a, b) => b.hit.score - a.hit.score );
+
+        const permutations = ( this.sequence1.sequence.length + 1 ) * ( this.sequence2.sequence.length + 1 ) * strands;
+        const statistics = this.mode==AlignmentMode.Local ? karlinAltschul(this.scoring, this.alphabet) : undefined;
+
+        // a local pass that found nothing scoring above 0 has an empty alignment: that's no hit
+        this.hits = hits.filter( ({ hit }) => hit.alignment.length > 0 ).slice(0, this.maxHits).map( ({ hit, strand }) => ({ 
+            alignment: hit.alignment, 
+            stats: this.createStats( hit, strand, permutations, statistics ),
+        }));
+        this.outcome = this.hits.length ? AlignmentOutcome.Aligned : AlignmentOutcome.NoSignificantAlignment;
+        this.alignment = this.hits[0]?.alignment ?? [];
+        this._stats = this.hits[0]?.stats ?? this.createStats( hits[0].hit, StrandSense.Plus, permutations );
+        this.scoreMatrix = hits[0].hit.preview;
+
+        if( this.shuffles>0 && this.outcome==AlignmentOutcome.Aligned )
+        {
+            this._stats.empirical = this.shuffledPValue( this._stats.score, progressFrom(strands * this.maxHits, strands * this.shuffles) );
+        }
     }
 
     get maxSequenceLength() {
         return Math.max( this.sequence1.sequence.length, this.sequence2.sequence.length);
     }
 
-    /** 
-     * @link https://en.wikipedia.org/wiki/Smith%E2%80%93Waterman_algorithm 
-     * @param sequence1 
-     * @param sequence2 
+    /**
+     * The Aligner compares one sequence against another, so only the first record of each text is used. The format is detected (see `parseSequences`).
+     * @throws SequenceParseError if the text can't be parsed or the record has no residues
      */
-    private analize( sequence1:string, sequence2:string )
-    { 
-        const W = (sequence1.length + 1);
-        const H = (sequence2.length + 1)
-        const permutationsTotal = W * H;
+    private firstRecord( text:string, num:number ) :Sequence {
+        const [ record ] = parseSequences(text);
+
+        if( !record ) throw new SequenceParseError(`Sequence ${ num } is empty`, 1, 1);
+        if( !record.sequence ) throw new SequenceParseError(`Sequence ${ num } (${ record.name }) has no residues`, record.line, 1);
+
+        return { name: record.name, sequence: record.sequence, quality: record.quality };
+    }
+
+    /**
+     * @throws AlignmentError if a score isn't a number or a gap penalty is negative (gaps would be rewarded, and alignments grow forever)
+     */
+    private validateScoring() {
+        const { match, mismatch, gap, gapExtend } = this.scoring;
+
+        for (const [ name, value ] of Object.entries({ match, mismatch, gap, gapExtend: gapExtend ?? gap })) {
+            if( !Number.isFinite(value) ) throw new AlignmentError(`The ${ name } score must be a number, it is ${ value }`);
+        }
+
+        if( gap < 0 || ( gapExtend ?? gap ) < 0 ) throw new AlignmentError(`Gap penalties are costs and can't be negative (gap ${ gap }, extend ${ gapExtend ?? gap })`);
+    }
 
-        const matchReward = 1;
-        const mismatchPenalty = -matchReward;
-        const gapPenalty = 1;
+    /**
+     * @throws AlignmentError if a seed-and-extend parameter is out of range (words must fit the index)
+     */
+    private validateHeuristic() {
+        if( !this.heuristic ) return;
 
-        const channels = 2; //0:score, 1:next index
-        const permutations = new Float32Array(permutationsTotal * channels);
+        const { wordSize, bandWidth, minSeeds, maxSeedGap, maxWordOccurrences, maxChains } = this.heuristic;
+        const maxWord = maxWordSize[this.alphabet];
 
-        let maxScore = 0;
-        let maxIndex = 0;
+        if( !Number.isInteger(wordSize) || wordSize<2 || wordSize>maxWord ) throw new AlignmentError(`The word size must be a whole number from 2 to ${ maxWord } for ${ Alphabet[this.alphabet] } sequences, it is ${ wordSize }`);
 
-        for (let i= 0; i < permutationsTotal; i++) {  
-            const x = i % W;
-            const y = Math.floor( i/W );
+        for (const [ name, value ] of Object.entries({ bandWidth, minSeeds, maxSeedGap, maxWordOccurrences, maxChains })) {
+            if( !Number.isInteger(value) || value<( name=="bandWidth" || name=="maxSeedGap" ? 0 : 1 ) ) throw new AlignmentError(`The ${ name } of seed-and-extend must be a whole number, at least ${ name=="bandWidth" || name=="maxSeedGap" ? 0 : 1 }, it is ${ value }`);
+        }
+    }
 
-            if( y==0 || x==0 ) { 
-                continue; // first row and columns must be all 0
+    /**
+     * The result as plain data, without the class (what `structuredClone`/`postMessage` can carry)
+     */
+    toResult() :AlignmentResult {
+        return {
+            outcome: this.outcome,
+            sequence1: this.sequence1,
+            sequence2: this.sequence2,
+            alignment: this.alignment,
+            stats: this.stats,
+            hits: this.hits,
+            scoreMatrix: this.scoreMatrix,
+        }
+    }
+
+    /**
+     * Realigns sequence 1 against shuffles of sequence 2: same length and composition, but no homology left.
+     * Counts how many of them score at least `score` (on any strand).
+     * @link https://en.wikipedia.org/wiki/Fisher%E2%80%93Yates_shuffle
+     */
+    private shuffledPValue( score:number, onProgress:(progress:number)=>void ) :EmpiricalSignificance
+    {
+        const strands = this.bothStrands ? 2 : 1;
+        const residues = [ ...this.sequence2.sequence ];
+        let hits = 0;
+
+        for (let i = 0; i < this.shuffles; i++) {
+
+            for (let j = residues.length - 1; j > 0; j--) {
+                const k = Math.floor( Math.random() * (j + 1) );
+                [ residues[j], residues[k] ] = [ residues[k], residues[j] ];
+            }
+
+            const shuffled = residues.join("");
+            let best = -Infinity;
+
+            for (let strand = 0; strand < strands; strand++) {
+                const matrix = new AlignmentMatrix(this.sequence1.sequence, strand ? reverseComplement(shuffled) : shuffled, this.scoring, this.alphabet, true, false, false);
+                const unit = i * strands + strand;
+                best = Math.max( best, this.alignOnce( matrix, progress => onProgress( (unit + progress) / (this.shuffles * strands) ) ).score );
             }
 
-            const permScore = sequence1[x-1]==sequence2[y-1]? matchReward : mismatchPenalty;
-            const iD = Math.floor((x-1) + (y-1)*W);
-            const iL = Math.floor((x-1) + y*W);
-            const iT = Math.floor(x + (y-1)*W);
+            if( best>=score ) hits++;
+        }
+
+        return { pValue: (hits + 1) / (this.shuffles + 1), shuffles: this.shuffles };
+    }
 
-            const myScore = permutations[iD*channels] + permScore;
-            const lScore = permutations[iL*channels] - gapPenalty;
-            const tScore = permutations[iT*channels] - gapPenalty;
+    /**
+     * Finds up to `maxHits` alignments of the sequences, each one not going through the pairs of residues of the previous ones (Waterman–Eggert).
+     * @link https://doi.org/10.1016/0022-2836(87)90478-5
+     * @param onProgress fraction (0 to 1) of the work done
+     */
+    private analize( sequence1:string, sequence2:string, onProgress:(progress:number)=>void ) :StrandHit[]
+    {
+        if( this.heuristic ) return this.seedAndExtend( sequence1, sequence2, this.heuristic, onProgress );
 
-            const score = Math.max(myScore, lScore, tScore, 0); 
-            let nextIndex = 0;
+        const local = this.mode==AlignmentMode.Local;
+        const [ freeEnds1, freeEnds2 ] = freeEndGaps(this.mode);
+        const matrix = new AlignmentMatrix(sequence1, sequence2, this.scoring, this.alphabet, local, freeEnds1, freeEnds2);
+        const hits:StrandHit[] = [];
 
-            if( myScore==score )
-            { 
-                nextIndex = iD;
+        for (let pass = 0; pass < this.maxHits; pass++) {
+            const sampler = pass==0 && this.scorePreview>0 ? previewSampler(matrix.W, matrix.H, this.scorePreview) : undefined;
+            const hit = this.alignOnce( matrix, progress => onProgress( (pass + progress) / this.maxHits ), sampler?.addRow );
+            hit.preview = sampler?.preview;
+
+            // nothing left that scores... (the first pass is always reported, even if empty)
+            if( pass>0 && hit.score<=0 ) break;
+
+            hits.push(hit);
+
+            for (const residue of hit.alignment) {
+                matrix.forbid( residue.iA+1, residue.iB+1 );
             }
-            else if( score==lScore )
-            {
-                // stay on sequence 2, try the next residue of sequence 1...
-                nextIndex = iL;
+        }
+
+        return hits;
+    }
+
+    /**
+     * Local alignments around the chains of seeds of the sequences (see `findSeedChains`), up to `maxHits` of the best that don't share pairs of residues.
+     * Each band is aligned on its own (`AlignmentMatrix.fillBand`) and traced back like a full matrix.
+     * @param onProgress fraction (0 to 1) of the bands aligned
+     */
+    private seedAndExtend( sequence1:string, sequence2:string, parameters:SeedParameters, onProgress:(progress:number)=>void ) :StrandHit[]
+    {
+        const chains = findSeedChains(sequence1, sequence2, parameters, this.alphabet);
+        const matrix = new AlignmentMatrix(sequence1, sequence2, this.scoring, this.alphabet, true, false, false);
+        const found:StrandHit[] = [];
+
+        chains.forEach( (chain, i) => {
+            const best:BestCell = { score: 0, index: 0 };
+            const pointerAt = matrix.fillBand( chain.fromY + 1, chain.toY + 1, chain.fromDiagonal, chain.toDiagonal, best );
+            const hit = this.traceback( matrix, best, pointerAt );
+
+            if( hit.score>0 ) found.push(hit);
+            onProgress( (i + 1) / chains.length );
+        });
+
+        // bands may overlap: the same alignment (or part of it) can come out of several
+        found.sort( (a, b) => b.score - a.score );
+
+        const taken = new Set<number>();
+        const hits = found.filter( hit => {
+            if( hit.alignment.some( ({ iA, iB }) => taken.has( iA * matrix.H + iB ) ) ) return false;
+            hit.alignment.forEach( ({ iA, iB }) => taken.add( iA * matrix.H + iB ) );
+            return true;
+        }).slice( 0, this.maxHits );
+
+        // like an exhaustive pass that found nothing
+        return hits.length ? hits : [ { alignment: [], score: 0, matches: 0, gaps: 0 } ];
+    }
+
+    /** 
+     * Fills the scoring matrix (see `AlignmentMatrix`) and follows the traceback from the best cell.
+     * The mode only changes the borders: where a path may start (first row/column), where it may end, and if scores are floored at 0.
+     * 
+     * Small inputs keep one traceback byte per cell. Above `linearMemoryAbove` cells only a checkpoint row every `k` rows is kept,
+     * and the traceback bytes of a block of rows are recomputed from its checkpoint when the traceback walks into it.
+     * Same recurrence, same ties, so both ways produce the exact same alignment.
+     * 
+     * @link https://en.wikipedia.org/wiki/Smith%E2%80%93Waterman_algorithm 
+     * @link https://en.wikipedia.org/wiki/Needleman%E2%80%93Wunsch_algorithm
+     * @param onProgress fraction (0 to 1) of rows filled
+     * @param onRow receives the H scores of each row
+     */
+    private alignOnce( matrix:AlignmentMatrix, onProgress:(progress:number)=>void, onRow?:(y:number, H:Float32Array)=>void ) :StrandHit
+    { 
+        const { W, H, local } = matrix;
+        const best:BestCell = { score: local ? 0 : -Infinity, index: 0 };
+
+        let pointerAt:(x:number, y:number)=>number;
+
+        if( W * H <= this.linearMemoryAbove )
+        {
+            const traceback = new Uint8Array( (H-1) * W ); // row 0 has no traceback
+            const row = matrix.firstRow();
+            onRow?.(0, row.H);
+            const rowsPerStep = Math.ceil( 2**20 / W ); // report progress about every million cells
+
+            for (let y = 1; y < H; y += rowsPerStep) {
+                const toY = Math.min(y + rowsPerStep, H);
+                matrix.fillRows( row, y, toY, traceback.subarray( (y-1)*W ), best, onRow );
+                onProgress( (toY-1) / (H-1) );
             }
-            else if( score==tScore )
-            {
-                // stays on sequence 1, try the next residue of sequence 2...
-                nextIndex = iT;
+
+            pointerAt = (x, y) => traceback[ x + (y-1)*W ];
+        }
+        else 
+        {
+            // each checkpoint costs 2 rows of floats (8 bytes per column) and a block k traceback bytes per column: k = sqrt(8H) balances both.
+            const k = Math.ceil( Math.sqrt( 8*H ) );
+            const checkpoints:ScoreRow[] = [];
+            const row = matrix.firstRow();
+            onRow?.(0, row.H);
+
+            for (let y = 1; y < H; y += k) {
+                checkpoints.push({ H: row.H.slice(), F: row.F.slice() });
+                matrix.fillRows( row, y, Math.min(y + k, H), undefined, best, onRow );
+                onProgress( (Math.min(y + k, H)-1) / (H-1) );
             }
 
-            if( score>maxScore )
-            {
-                maxScore = score;
-                maxIndex = i; 
+            const block = new Uint8Array( k * W );
+            let blockStart = -Infinity;
+
+            pointerAt = (x, y) => {
+                if( y<blockStart || y>=blockStart+k )
+                {
+                    const c = Math.floor( (y-1)/k );
+                    const checkpoint = checkpoints[c];
+                    blockStart = c*k + 1;
+                    matrix.fillRows( { H: checkpoint.H.slice(), F: checkpoint.F.slice() }, blockStart, Math.min(blockStart + k, H), block );
+                }
+                return block[ x + (y-blockStart)*W ];
             }
+        }
 
-            permutations[i*channels] = score; 
-            permutations[i*channels+1] = nextIndex; 
-        } 
+        return this.traceback( matrix, best, pointerAt );
+    }
 
-        //
-        // ---- TRACEBACK ---- 
-        //
-        let next = maxIndex;
+    /**
+     * ---- TRACEBACK ---- 
+     * From the best cell, tail to head, following the state we are in (H, E or F).
+     * @param pointerAt traceback byte of a cell, however the fill kept them
+     */
+    private traceback( matrix:AlignmentMatrix, best:BestCell, pointerAt:(x:number, y:number)=>number ) :StrandHit
+    {
+        const { W, local, freeEnds1, freeEnds2 } = matrix;
         const result:ResidueResult[] = []
 
-        let iA = 0;
-        let iB = 0;
+        let x = best.index % W;
+        let y = Math.floor( best.index/W );
+        let state = best.score>0 || !local ? FROM_DIAGONAL : FROM_STOP;
 
         let gaps = 0;
         let matches = 0; 
         
-        while( true )
+        while( x>0 && y>0 )
         {  
-            if( !next || next==0 || (permutations[ next * channels ] <= 0 )) break;
- 
-            const nextIndex = permutations[ next * channels + 1];
-            const x = next % W;
-            const y = Math.floor( next/W );
-
-            const _iA = x-1;
-            const _iB = y-1;
- 
-            const A = sequence1[_iA];
-            const B = sequence2[_iB];
-
-            let res = Result.GOOD_MATCH;
-
-            if( A!=B )
-            {  
-                // here we are going from tail to head... so the "past" is actually the future. We are the future here...
-                if( iA==_iA )
-                { 
-                    res = Result.B_NOMATCH;
-                    gaps++;
-                }
-                else if( iB==_iB )
-                {
-                    res = Result.A_NOMATCH
-                    gaps++;
-                }
-                else 
-                {
-                    res = Result.NO_MATCH;
-                    // no gap, here we simply allowed these two to be next to each other even tho they dont match...
-                }
+            const pointer = pointerAt( x, y );
+
+            if( state==FROM_DIAGONAL )
+            {
+                // we are in H, see where the best score came from...
+                state = pointer & FROM_MASK;
+
+                if( state==FROM_STOP ) break;
+                if( state!=FROM_DIAGONAL ) continue;
+
+                const res = compareResidues( matrix.residues1[x-1], matrix.residues2[y-1], this.alphabet );
+                if( res==Result.GOOD_MATCH ) matches++;
+
+                result.push({ iA: x-1, iB: y-1, res });
+                x--;
+                y--;
+            }
+            else if( state==FROM_LEFT )
+            {
+                // residue of sequence 1 against a gap in sequence 2 (the gap sits after residue y-1 of sequence 2)
+                result.push({ iA: x-1, iB: y-1, res: Result.A_NOMATCH });
+                gaps++;
+                if( !(pointer & E_EXTENDS) ) state = FROM_DIAGONAL;
+                x--;
             }
             else 
             {
-                matches++;
+                // residue of sequence 2 against a gap in sequence 1
+                result.push({ iA: x-1, iB: y-1, res: Result.B_NOMATCH });
+                gaps++;
+                if( !(pointer & F_EXTENDS) ) state = FROM_DIAGONAL;
+                y--;
             }
- 
-            result.push({
-                iA: _iA,
-                iB: _iB,
-                res
-            });
-
-            iA = _iA;
-            iB = _iB;
-             
-            next = nextIndex;   
         }
 
         //
-        // stats
+        // we hit the first row or column: unless those end gaps are free, the leading residues are aligned against gaps.
+        // Those gaps sit before the first residue of the other sequence, so they take its index (there is no residue -1)
         //
-        this._stats = {
-            alignmentLength: result.length, // - gaps, (apparently gaps are considered)
-            alignmentMatchPercent: matches/result.length,
-            permutations: permutationsTotal, 
+        if( !local )
+        {
+            for( ; y>0 && !freeEnds2; y-- )
+            {
+                result.push({ iA: Math.max(0, x-1), iB: y-1, res: Result.B_NOMATCH });
+                gaps++;
+            }
+
+            for( ; x>0 && !freeEnds1; x-- )
+            {
+                result.push({ iA: x-1, iB: Math.max(0, y-1), res: Result.A_NOMATCH });
+                gaps++;
+            }
+        }
+
+        result.reverse();
+
+        return { alignment: result, score: best.score, matches, gaps };
+    }
+
+    /**
+     * Stats of the chosen hit. Indexes of the minus strand are flipped back to the coordinates of sequence 2 as given.
+     */
+    private createStats( { alignment, score, matches, gaps }:StrandHit, strand:StrandSense, permutations:number, statistics?:KarlinAltschul ) :AlignmentStats
+    {
+        const residuesOf1 = alignment.filter( r => r.res!=Result.B_NOMATCH );
+        const residuesOf2 = alignment.filter( r => r.res!=Result.A_NOMATCH );
+        const length2 = this.sequence2.sequence.length;
+        const toSequence2 = (iB:number) => strand==StrandSense.Minus ? length2 - 1 - iB : iB;
+
+        return {
+            score,
+            alignmentLength: alignment.length, // - gaps, (apparently gaps are considered)
+            alignmentMatchPercent: alignment.length ? matches/alignment.length : 0,
+            gaps,
+            permutations, 
+            alphabet: this.alphabet,
+            scoring: this.scoring,
+            mode: this.mode,
             sequence1: {
                 name: this.sequence1.name, 
                 length: this.sequence1.sequence.length,
-                end: result[0].iA,
-                start: result.at(-1)!.iA
+                start: residuesOf1[0]?.iA ?? -1,
+                end: residuesOf1.at(-1)?.iA ?? -1,
+                strand: StrandSense.Plus,
             },
             sequence2: {
                 name: this.sequence2.name, 
-                length: this.sequence2.sequence.length,
-                end: result[0].iB,
-                start: result.at(-1)!.iB
+                length: length2,
+                start: residuesOf2.length ? toSequence2( residuesOf2[0].iB ) : -1,
+                end: residuesOf2.length ? toSequence2( residuesOf2.at(-1)!.iB ) : -1,
+                strand,
             },
+            significance: statistics && {
+                ...statistics,
+                bitScore: bitScore(score, statistics),
+                // both strands is twice the search space
+                eValue: eValue(score, this.sequence1.sequence.length * length2 * ( this.bothStrands ? 2 : 1 ), statistics),
+            },
+            heuristic: this.heuristic,
         }
-
-        return result.reverse()
-    }
-
-    /**
-     * @link https://en.wikipedia.org/wiki/FASTA_format
-     * @param fasta 
-     * @returns 
-     */
-    private parseFasta(fasta: string) :Sequence {
-        const lines = fasta.split(/\r?\n/);
-        let sequence = '';
-        let name = '';
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-            if (!line) continue;
-            if (line.startsWith('>')) {
-                name = line;
-                if (sequence.length > 0) break;
-                continue; // skip header line
-            }
-            sequence += line;
-        }
-
-        return { name, sequence }
     }
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { Aligner } from "./Aligner";
+import type { AlignRequest, AlignResponse, DotPlotRequest, MultipleAlignRequest, SerializedError } from "./AsyncAligner";
+import { computeDotPlot, type DotPlot } from "./DotPlot";
+import type { SequenceParseError } from "./Fasta";
+import { alignMultiple, type MultipleAlignmentResult } from "./MultipleAlignment";
+
+const reply = ( message:AlignResponse | AlignResponse<MultipleAlignmentResult> | AlignResponse<DotPlot> ) => postMessage(message);
+
+function serializeError( error:unknown ) :SerializedError {
+    const { name, message, line, column } = error as Error & Partial<SequenceParseError>;
+    return { name, message, line, column };
+}
+
+/**
+ * Runs an Aligner (or a multiple alignment, or a dot plot) off the main thread. One worker per alignment: cancelling is terminating it.
+ * @see alignAsync
+ * @see alignMultipleAsync
+ * @see computeDotPlotAsync
+ */
+onmessage = ( e:MessageEvent<AlignRequest | MultipleAlignRequest | DotPlotRequest> ) => {
+    const onProgress = ( progress:number ) => reply({ type: "progress", progress });
+
+    try 
+    {
+        if( "sequences" in e.data )
+        {
+            reply({ type: "done", result: alignMultiple(e.data.sequences, { ...e.data.options, onProgress }) });
+            return;
+        }
+
+        if( "sequence1" in e.data )
+        {
+            const { sequence1, sequence2, options } = e.data;
+            reply({ type: "done", result: computeDotPlot(sequence1, sequence2, { ...options, onProgress }) });
+            return;
+        }
+
+        const { fasta1, fasta2, options } = e.data;
+        const aligner = new Aligner(fasta1, fasta2, { ...options, onProgress });
+
+        reply({ type: "done", result: aligner.toResult() });
+    }
+    catch( error )
+    {
+        reply({ type: "error", error: serializeError(error) });
+    }
+}
@@ -0,0 +1,160 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { alignedRange, Result, StrandSense, type AlignmentResult } from './Aligner';
+import { alignmentRows } from './Export';
+
+/**
+ * Columns of an alignment, `from` to `to` included
+ */
+export type ColumnRange = {
+    from: number
+    to: number
+}
+
+/** Columns per line */
+const lineWidth = 60;
+/** Pixels per line of text, and lines per block: ruler, sequence 1, match line, sequence 2, ruler, blank */
+const lineHeight = 16;
+const blockHeight = lineHeight * 6;
+/** Blocks rendered above and below the visible ones */
+const overscan = 2;
+
+/**
+ * 1-based position of the residue of each column, in the sequences as given (gaps repeat the residue before them, 0 if none)
+ */
+function columnPositions(result: AlignmentResult) {
+    const { alignment, stats } = result.hits[0];
+    const minus = stats.sequence2.strand == StrandSense.Minus;
+    const position1 = new Int32Array(alignment.length);
+    const position2 = new Int32Array(alignment.length);
+
+    let next1 = stats.sequence1.start;
+    let next2 = alignedRange(stats.sequence2).start;
+
+    alignment.forEach(({ res }, column) => {
+        if (res != Result.B_NOMATCH) next1++;
+        if (res != Result.A_NOMATCH) next2++;
+        position1[column] = next1;
+        position2[column] = minus ? stats.sequence2.length + 1 - next2 : next2;
+    });
+
+    return { position1, position2 };
+}
+
+/**
+ * A ruler line: the positions that are multiples of 10, right aligned on their column
+ */
+function ruler(row: string, positions: Int32Array, from: number) {
+    const line = Array<string>(Math.min(lineWidth, row.length - from)).fill(" ");
+
+    for (let i = line.length - 1, free = line.length; i >= 0; i--) {
+        const position = positions[from + i];
+        const label = String(position);
+
+        if (row[from + i] == "-" || position % 10 != 0 || i + 1 > free || i + 1 < label.length) continue;
+
+        line.splice(i + 1 - label.length, label.length, ...label);
+        free = i + 1 - label.length - 1;
+    }
+
+    return line.join("");
+}
+
+/**
+ * The best alignment as text, the way pairwise aligners print it: blocks of sequence 1, match line and sequence 2 with position rulers.
+ * Only the blocks in view are rendered, so long alignments scroll smoothly.
+ * Scrolling reports the column in the middle of the view, and dragging over residues selects a range of columns.
+ */
+export function AlignmentPanel({ result, focusColumn, onCursor, onSelect }: {
+    result: AlignmentResult,
+    /** Scrolls to this column when it changes (like a residue picked on the strands) */
+    focusColumn?: number,
+    onCursor?: (column: number) => void,
+    onSelect?: (range?: ColumnRange) => void
+}) {
+    const container = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [height, setHeight] = useState(400);
+    const [selection, setSelection] = useState<ColumnRange>();
+    const dragFrom = useRef<number>(undefined);
+
+    const rows = useMemo(() => alignmentRows(result, result.hits[0]), [result]);
+    const { position1, position2 } = useMemo(() => columnPositions(result), [result]);
+    const blocks = Math.ceil(rows.row1.length / lineWidth);
+
+    // a new alignment starts from the top, with nothing selected
+    useEffect(() => {
+        container.current?.scrollTo({ top: 0 });
+        setSelection(undefined);
+    }, [result]);
+
+    useEffect(() => {
+        if (focusColumn === undefined || !container.current) return;
+        const top = Math.floor(focusColumn / lineWidth) * blockHeight;
+        container.current.scrollTo({ top: Math.max(0, top - container.current.clientHeight / 2 + blockHeight / 2), behavior: "smooth" });
+    }, [focusColumn]);
+
+    const onScroll = () => {
+        const element = container.current!;
+        setScrollTop(element.scrollTop);
+        setHeight(element.clientHeight);
+
+        const middleBlock = Math.floor((element.scrollTop + element.clientHeight / 2) / blockHeight);
+        onCursor?.(Math.min(rows.row1.length - 1, middleBlock * lineWidth + lineWidth / 2));
+    }
+
+    //
+    // selection: drag over the residues
+    //
+    const columnOf = (target: EventTarget) => {
+        const column = (target as HTMLElement).dataset?.column;
+        return column === undefined ? undefined : Number(column);
+    }
+
+    const select = (range?: ColumnRange) => {
+        setSelection(range);
+        onSelect?.(range);
+    }
+
+    const onMouseDown = (e: React.MouseEvent) => {
+        const column = columnOf(e.target);
+        dragFrom.current = column;
+        select(column === undefined ? undefined : { from: column, to: column });
+    }
+
+    const onMouseOver = (e: React.MouseEvent) => {
+        const column = columnOf(e.target);
+        if (dragFrom.current === undefined || column === undefined || !(e.buttons & 1)) return;
+        select({ from: Math.min(dragFrom.current, column), to: Math.max(dragFrom.current, column) });
+    }
+
+    const isSelected = (column: number) => !!selection && column >= selection.from && column <= selection.to;
+
+    const residues = (text: string, from: number) => [...text].map((residue, i) =>
+        <span key={i} data-column={from + i} className={isSelected(from + i) ? "selected" : undefined}>{residue}</span>);
+
+    const first = Math.max(0, Math.floor(scrollTop / blockHeight) - overscan);
+    const last = Math.min(blocks, Math.ceil((scrollTop + height) / blockHeight) + overscan);
+    const labelWidth = String(Math.max(position1[position1.length - 1] ?? 0, result.sequence2.sequence.length)).length + 1;
+    const label = (position: number) => String(position).padStart(labelWidth) + " ";
+
+    return (
+        <div ref={container} className="alignment-panel vt323-regular" onScroll={onScroll} onMouseDown={onMouseDown} onMouseOver={onMouseOver} onMouseUp={() => dragFrom.current = undefined}>
+            <div style={{ height: blocks * blockHeight, position: "relative" }}>
+                {Array.from({ length: last - first }, (_, i) => {
+                    const block = first + i;
+                    const from = block * lineWidth;
+                    const to = Math.min(from + lineWidth, rows.row1.length);
+                    const pad = " ".repeat(labelWidth + 1);
+
+                    return <pre key={block} style={{ top: block * blockHeight, lineHeight: `${lineHeight}px` }}>
+                        {pad}{ruler(rows.row1, position1, from)}{"\n"}
+                        {label(position1[from])}{residues(rows.row1.slice(from, to), from)} {position1[to - 1]}{"\n"}
+                        {pad}{rows.markup.slice(from, to)}{"\n"}
+                        {label(position2[from])}{residues(rows.row2.slice(from, to), from)} {position2[to - 1]}{"\n"}
+                        {pad}{ruler(rows.row2, position2, from)}
+                    </pre>
+                })}
+            </div>
+        </div>
+    );
+}
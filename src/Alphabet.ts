@@ -0,0 +1,146 @@
+/**
+ * What the residues of a sequence are.
+ */
+export enum Alphabet {
+    Nucleotide,
+    Protein
+}
+
+/**
+ * IUPAC nucleotide codes as a bit mask of the bases they may stand for (A:1, C:2, G:4, T/U:8)
+ * @link https://en.wikipedia.org/wiki/Nucleic_acid_notation
+ */
+export const iupacNucleotides: Record<string, number> = {
+    A: 1,
+    C: 2,
+    G: 4,
+    T: 8,
+    U: 8,
+    R: 1 | 4,       // A or G (purine)
+    Y: 2 | 8,       // C or T (pyrimidine)
+    K: 4 | 8,       // G or T
+    M: 1 | 2,       // A or C
+    S: 2 | 4,       // G or C
+    W: 1 | 8,       // A or T
+    B: 2 | 4 | 8,   // not A
+    D: 1 | 4 | 8,   // not C
+    H: 1 | 2 | 8,   // not G
+    V: 1 | 2 | 4,   // not T
+    N: 1 | 2 | 4 | 8, // any base
+};
+
+/**
+ * IUPAC amino acid ambiguity codes, as the residues they may stand for.
+ * @link https://en.wikipedia.org/wiki/Proteinogenic_amino_acid
+ */
+export const iupacAminoAcids: Record<string, string> = {
+    B: "DN", // aspartic acid or asparagine
+    Z: "EQ", // glutamic acid or glutamine
+    J: "IL", // leucine or isoleucine
+    X: "ACDEFGHIKLMNPQRSTVWYUO", // any
+};
+
+/**
+ * Char code (case insensitive, 7 bits) to a mask of what the residue may stand for. 0 means "not a residue of the alphabet"
+ */
+const residueMasks = {
+    [Alphabet.Nucleotide]: new Uint32Array(128),
+    [Alphabet.Protein]: new Uint32Array(128),
+};
+
+const setMask = ( alphabet:Alphabet, code:string, mask:number ) => {
+    residueMasks[alphabet][code.charCodeAt(0)] = mask;
+    residueMasks[alphabet][code.toLowerCase().charCodeAt(0)] = mask;
+}
+
+for (const code in iupacNucleotides) {
+    setMask(Alphabet.Nucleotide, code, iupacNucleotides[code]);
+}
+
+// each amino acid letter is a bit of its own (A:1, B:2, C:4...)
+for (let i = 0; i < 26; i++) {
+    setMask(Alphabet.Protein, String.fromCharCode(65 + i), 1 << i);
+}
+
+for (const code in iupacAminoAcids) {
+    const mask = [...iupacAminoAcids[code]].reduce( (mask, residue) => mask | (1 << (residue.charCodeAt(0) - 65)), 0 );
+    setMask(Alphabet.Protein, code, mask);
+}
+
+/**
+ * Returns the mask of what the residue at `charCode` may stand for, or 0 if it is not a residue code of the alphabet.
+ */
+export function residueMask( charCode:number, alphabet:Alphabet ) {
+    return residueMasks[alphabet][charCode & 127];
+}
+
+/**
+ * IUPAC mask of a nucleotide, 0 if it is not a nucleotide code.
+ */
+export function nucleotideMask( charCode:number ) {
+    return residueMask(charCode, Alphabet.Nucleotide);
+}
+
+/**
+ * Amount of concrete residues a mask stands for (1 for A,C,G,T, 4 for N...)
+ */
+export function countBits( mask:number ) {
+    let count = 0;
+    for (; mask; mask &= mask - 1) count++;
+    return count;
+}
+
+/**
+ * Guesses the alphabet the way BLAST does: mostly A, C, G, T/U and N means nucleotides.
+ */
+export function detectAlphabet( ...sequences:string[] ) {
+    let letters = 0;
+    let nucleotides = 0;
+
+    for (const sequence of sequences) {
+        for (let i = 0; i < sequence.length; i++) {
+            const code = sequence.charCodeAt(i) | 32; // lower case
+            if( code<97 || code>122 ) continue;
+            letters++;
+            if( code==97 || code==99 || code==103 || code==116 || code==117 || code==110 ) nucleotides++;
+        }
+    }
+
+    return nucleotides >= letters * .9 ? Alphabet.Nucleotide : Alphabet.Protein;
+}
+
+/**
+ * Residues as 7 bit char codes, which is how the aligner indexes its lookup tables.
+ */
+export function encodeResidues( sequence:string ) {
+    const codes = new Uint8Array(sequence.length);
+    for (let i = 0; i < sequence.length; i++) {
+        codes[i] = sequence.charCodeAt(i) & 127;
+    }
+    return codes;
+}
+
+/**
+ * Complement of each IUPAC nucleotide code (an ambiguity code complements to the code of the complemented bases)
+ */
+const complements: Record<string, string> = {
+    A: "T", T: "A", U: "A", C: "G", G: "C",
+    R: "Y", Y: "R", K: "M", M: "K", S: "S", W: "W",
+    B: "V", V: "B", D: "H", H: "D", N: "N",
+};
+
+for (const code in complements) {
+    complements[code.toLowerCase()] = complements[code].toLowerCase();
+}
+
+/**
+ * The opposite strand of a nucleotide sequence, read 5' to 3'. Case is kept (soft-masking) and anything that is not a nucleotide code is left as is.
+ */
+export function reverseComplement( sequence:string ) {
+    const residues = new Array<string>(sequence.length);
+    for (let i = 0; i < sequence.length; i++) {
+        const residue = sequence[sequence.length - 1 - i];
+        residues[i] = complements[residue] ?? residue;
+    }
+    return residues.join("");
+}
@@ -0,0 +1,202 @@
+import { SequenceParseError } from "./Fasta";
+
+/**
+ * A stretch of a sequence with a meaning: a gene, a CDS, an exon...
+ */
+export type Feature = {
+    /** GenBank feature key, GFF3 type (`gene`, `CDS`, `exon`...), `region` for BED */
+    type:string
+    /** Gene name, product, ID... whatever the file had to tell it apart */
+    name:string
+    /** Sequence it is on (BED chrom, GFF3 seqid). Undefined for the features of a GenBank/EMBL record, which are on the record itself */
+    seqid?:string
+    /** Its parts (exons of a joined CDS), in order along the sequence, 0-based with the end excluded */
+    segments:{ start:number, end:number }[]
+    /** 1: forward, -1: reverse (complement), 0: not stranded */
+    strand:1 | -1 | 0
+}
+
+/**
+ * Feature types that span the whole record: drawn, they would just be a ring
+ */
+const wholeRecordTypes = new Set([ "source", "region", "chromosome", "contig" ]);
+
+/**
+ * Parses a feature location of GenBank/EMBL, like `complement(join(12..78,134..202))`.
+ * Fuzzy ends (`<1..>100`) are taken as exact, parts on other records (`J00194.1:100..202`) are left out.
+ * @link https://www.insdc.org/submitting-standards/feature-table/#3.4
+ */
+export function parseLocation( location:string ) :Pick<Feature, "segments" | "strand"> {
+    const segments = location
+                    .replace(/complement|join|order|[()<>\s]/g, "")
+                    .split(",")
+                    .filter( part => !part.includes(":") )
+                    .map( part => part.split(/\.\.|\^/).map(Number) )
+                    .filter( ([ from, to = from ]) => Number.isInteger(from) && Number.isInteger(to) && from>0 )
+                    .map( ([ from, to = from ]) => ({ start: Math.min(from, to) - 1, end: Math.max(from, to) }) )
+                    .sort( (a, b) => a.start - b.start );
+
+    return { segments, strand: location.includes("complement(") ? -1 : 1 };
+}
+
+/**
+ * Collects the features of a GenBank/EMBL feature table, fed one line at a time (without the `FT` of EMBL):
+ * the key at column 6, its location and then its `/qualifier=value`s at column 22.
+ */
+export function featureTableReader() {
+    const features:Feature[] = [];
+    let current:{ key:string, location:string, qualifiers:string[] } | undefined;
+
+    const close = () => {
+        if( current && !wholeRecordTypes.has(current.key) )
+        {
+            const qualifier = ( name:string ) => current!.qualifiers.find( q => q.startsWith(`/${ name }=`) )?.slice(name.length + 2).replace(/^"|"$/g, "");
+            const name = qualifier("gene") ?? qualifier("locus_tag") ?? qualifier("product") ?? qualifier("label") ?? qualifier("note") ?? current.key;
+            const location = parseLocation(current.location);
+
+            if( location.segments.length ) features.push({ type: current.key, name, ...location });
+        }
+        current = undefined;
+    }
+
+    const addLine = ( line:string ) => {
+        const key = line.slice(5, 21).trim();
+        const value = line.slice(21).trim();
+
+        if( key )
+        {
+            close();
+            current = { key, location: value, qualifiers: [] };
+        }
+        else if( current && value.startsWith("/") )
+        {
+            current.qualifiers.push(value);
+        }
+        else if( current )
+        {
+            // a long location or qualifier value goes on in the next lines
+            if( current.qualifiers.length ) current.qualifiers[ current.qualifiers.length - 1 ] += " " + value;
+            else current.location += value;
+        }
+    }
+
+    return {
+        addLine,
+        /** Every feature read so far (call it once the table is over) */
+        features: () => {
+            close();
+            return features;
+        },
+    };
+}
+
+/**
+ * Lines of an annotation file that aren't comments, with their 1-based number
+ */
+function dataLines( text:string ) {
+    return text.split(/\r?\n/)
+            .map( (text, i) => ({ text, line: i + 1 }) )
+            .filter( ({ text }) => text.trim() && !text.startsWith("#") && !/^(track|browser)\b/.test(text) );
+}
+
+/**
+ * Parses a BED file (0-based, end excluded). Blocks (columns 10 to 12) become the segments.
+ * @link https://genome.ucsc.edu/FAQ/FAQformat.html#format1
+ * @throws SequenceParseError at a line without a valid start and end
+ */
+export function parseBed( text:string ) :Feature[] {
+    return dataLines(text).map( ({ text, line }) => {
+        const [ seqid, from, to, name, , strand, , , , blockCount, blockSizes, blockStarts ] = text.trim().split(/\t| +/);
+        const start = Number(from);
+        const end = Number(to);
+
+        if( !Number.isInteger(start) || !Number.isInteger(end) || start<0 || end<start ) throw new SequenceParseError(`Expected a start and an end, found "${ text.trim() }"`, line, 1);
+
+        const sizes = blockSizes?.split(",").filter(Boolean).map(Number) ?? [];
+        const starts = blockStarts?.split(",").filter(Boolean).map(Number) ?? [];
+        const blocks = Number(blockCount) > 0 && sizes.length==starts.length
+                        ? starts.map( (blockStart, i) => ({ start: start + blockStart, end: start + blockStart + sizes[i] }) )
+                        : [ { start, end } ];
+
+        return {
+            type: "region",
+            name: name ?? `${ seqid }:${ start + 1 }-${ end }`,
+            seqid,
+            segments: blocks,
+            strand: strand=="+" ? 1 : strand=="-" ? -1 : 0,
+        };
+    });
+}
+
+/**
+ * Parses a GFF3 file (1-based, ends included). Lines sharing an ID (the parts of a CDS) make one feature.
+ * @link https://github.com/The-Sequence-Ontology/Specifications/blob/master/gff3.md
+ * @throws SequenceParseError at a line without 9 columns or a valid start and end
+ */
+export function parseGff3( text:string ) :Feature[] {
+    const features:Feature[] = [];
+    const byId = new Map<string, Feature>();
+
+    // sequences may follow the annotations
+    const fasta = text.search(/^##FASTA/m);
+
+    for (const { text: row, line } of dataLines( fasta<0 ? text : text.slice(0, fasta) )) {
+        const columns = row.split("\t");
+        if( columns.length < 9 ) throw new SequenceParseError(`Expected 9 tab separated columns, found ${ columns.length }`, line, 1);
+
+        const [ seqid, , type, from, to, , strand, , attributeText ] = columns;
+        const start = Number(from) - 1;
+        const end = Number(to);
+
+        if( !Number.isInteger(start) || !Number.isInteger(end) || start<0 || end<=start ) throw new SequenceParseError(`Expected a start and an end, found "${ from }" and "${ to }"`, line, 1);
+        if( wholeRecordTypes.has(type) ) continue;
+
+        const attributes = new Map( attributeText.split(";").filter(Boolean).map( pair => {
+            const [ key, value = "" ] = pair.split("=");
+            return [ key.trim(), decodeURIComponent(value) ] as const;
+        }));
+
+        const id = attributes.get("ID");
+        const same = id!==undefined ? byId.get(`${ type } ${ id }`) : undefined;
+
+        if( same )
+        {
+            same.segments.push({ start, end });
+            same.segments.sort( (a, b) => a.start - b.start );
+            continue;
+        }
+
+        const feature:Feature = {
+            type,
+            name: attributes.get("Name") ?? attributes.get("gene") ?? id ?? type,
+            seqid,
+            segments: [ { start, end } ],
+            strand: strand=="+" ? 1 : strand=="-" ? -1 : 0,
+        };
+
+        features.push(feature);
+        if( id!==undefined ) byId.set(`${ type } ${ id }`, feature);
+    }
+
+    return features;
+}
+
+/**
+ * Parses a side file of annotations: GFF3 if it says so (or its 7th column is a strand), BED otherwise.
+ */
+export function parseAnnotations( text:string ) :Feature[] {
+    const columns = ( dataLines(text)[0]?.text ?? "" ).split("\t");
+    const gff = /^##gff-version/m.test(text) || ( columns.length==9 && /^[+\-.?]$/.test(columns[6]) );
+
+    return gff ? parseGff3(text) : parseBed(text);
+}
+
+/**
+ * The features of a side file that are on the sequence `id`. A file about a single sequence applies whatever it calls it.
+ */
+export function featuresFor( features:Feature[], id:string ) {
+    const mine = features.filter( feature => feature.seqid===undefined || feature.seqid==id );
+    const seqids = new Set( features.map( feature => feature.seqid ) );
+
+    return mine.length || seqids.size!=1 ? mine : features;
+}
@@ -1,31 +1,204 @@
 
 import { Canvas } from '@react-three/fiber'
 import { seq1Data, seq2Data } from './MockData';
-import { DNAAlignmentVisualizer2 } from './DNAAlignmentVisualizer2';
+import { DNAAlignmentVisualizer2, type AlignmentProgress, type ResiduePick } from './DNAAlignmentVisualizer2';
+import { hitColor } from './Palette';
 import { useControls } from 'leva'
-import { useRef, useState } from 'react';
-import { type AlignmentStats, type SequenceStats } from './Aligner';
+import { useEffect, useRef, useState } from 'react';
+import { AlignmentMode, AlignmentOutcome, StrandSense, type AlignmentHit, type AlignmentResult, type AlignmentStats, type SequenceStats } from './Aligner';
+import { Alphabet } from './Alphabet';
 import { Bloom, ChromaticAberration, EffectComposer, Scanline, Noise } from '@react-three/postprocessing'
 import { BlendFunction } from 'postprocessing'
 import { NoiseEffect } from './NoiseEffect'; 
+import { SequenceParseError, type FastaRecord } from './Fasta';
+import { formatRecord, parseSequences } from './SequenceFormats';
+import { AlignmentPanel, type ColumnRange } from './AlignmentPanel';
+import { alignmentRows, formatAlignedFasta, formatJson, formatNewick, formatPair, formatSam } from './Export';
+import { createPermalink, readPermalink, type Permalink } from './Permalink';
+import { featuresFor, parseAnnotations, type Feature } from './Annotations';
+import type { MultipleAlignmentResult } from './MultipleAlignment';
  
 
 //nucleic acid sequence
 function App() {
 
-    const { turnOffPostProcessing } = useControls({
-        turnOffPostProcessing: false
+    const { turnOffPostProcessing, alignmentText } = useControls({
+        turnOffPostProcessing: false,
+        alignmentText: { value: true, label: "alignment text" },
     })
     const [s1, setS1] = useState(seq1Data);
     const [s2, setS2] = useState(seq2Data);
+    /** Annotations drawn around each subject: its record's own (GenBank, EMBL) or a side file's (BED, GFF3) */
+    const [features1, setFeatures1] = useState<Feature[]>();
+    const [features2, setFeatures2] = useState<Feature[]>();
 
     const [stats, setStats] = useState<AlignmentStats>();
+    const [result, setResult] = useState<AlignmentResult>();
+    /** The multiple alignment, while its view is shown */
+    const [msa, setMsa] = useState<MultipleAlignmentResult>();
+    const hits = result?.hits ?? [];
+    const [progress, setProgress] = useState<AlignmentProgress>();
+    const [pick, setPick] = useState<ResiduePick>();
+    /** Column in the middle of the text panel, and the columns selected in it */
+    const [cursor, setCursor] = useState<number>();
+    const [selection, setSelection] = useState<ColumnRange>();
+    /** Last thing that went wrong (bad input, rejected scoring...), and what it came from */
+    const [error, setError] = useState<{ error: Error, source?: string }>();
+
+    const showError = (error: Error, source?: string) => setError({ error, source });
+
+    /** The view of the link this page was opened with: `undefined` while it is read, `null` if there was none */
+    const [permalink, setPermalink] = useState<Permalink | null>();
+    /** Link to the current view, once "copy link" is clicked */
+    const [shared, setShared] = useState<{ url: string, copied: boolean }>();
+    /** Subject the paste dialog is open for */
+    const [pasteInto, setPasteInto] = useState<number>();
+    /** Subject a file dragged over the canvas would replace (by the half of the window it's over) */
+    const [dropInto, setDropInto] = useState<number>();
+
+    useEffect(() => {
+        readPermalink(location.hash)
+            .then(permalink => {
+                if (permalink) {
+                    setS1(permalink.fasta1);
+                    setS2(permalink.fasta2);
+                    setFeatures1(permalink.features1);
+                    setFeatures2(permalink.features2);
+                }
+                setPermalink(permalink ?? null);
+            })
+            .catch(error => {
+                showError(error as Error, "link");
+                setPermalink(null);
+            });
+
+        // the controls only take their initial values once: another link means starting over
+        const reload = () => location.reload();
+        window.addEventListener("hashchange", reload);
+        return () => window.removeEventListener("hashchange", reload);
+    }, []);
+
+    const share = (view: Permalink) => {
+        createPermalink(view)
+            .then(url => {
+                history.replaceState(null, "", url);
+                setShared({ url, copied: false });
+                // no clipboard (like over plain http): the link is in the panel to copy by hand
+                navigator.clipboard?.writeText(url).then(() => setShared({ url, copied: true }), () => { });
+            })
+            .catch(error => showError(error as Error));
+    }
+
+    /**
+     * Makes the first record with residues of a text (FASTA, GenBank, EMBL, FASTQ or bare residues) the subject `num`, the others can then be picked from the list
+     * @returns false if the text had none (the error is shown)
+     */
+    const loadSubject = (text: string, num: number, source: string) => {
+        try {
+            const loaded = parseSequences(text)
+                .filter(record => record.sequence.length > 0)
+                .map(record => ({ ...record, name: record.name || ">" + source }));
+            if (!loaded.length) throw new SequenceParseError("No record with residues found", 1, 1);
+
+            setRecords(loaded);
+            chooseRecord(loaded[0], num);
+            return true;
+        } catch (error) {
+            showError(error as Error, source);
+            return false;
+        }
+    }
+
+    /** Makes a record the subject `num`, with its annotations */
+    const chooseRecord = (record: FastaRecord, num: number) => {
+        (num == 1 ? setS1 : setS2)(formatRecord(record));
+        (num == 1 ? setFeatures1 : setFeatures2)(record.features);
+    }
+
+    /**
+     * Draws the features of a BED or GFF3 file that are on the subject `num` (by its id) around its strand
+     */
+    const loadAnnotations = (text: string, num: number, source: string) => {
+        const id = (num == 1 ? stats?.sequence1 : stats?.sequence2)?.name.replace(/^>/, "").split(/\s/)[0] ?? "";
+
+        try {
+            const features = featuresFor(parseAnnotations(text), id);
+            if (!features.length) throw new SequenceParseError(`No features of ${id || `subject ${num}`} found`, 1, 1);
+
+            (num == 1 ? setFeatures1 : setFeatures2)(features);
+        } catch (error) {
+            showError(error as Error, source);
+        }
+    }
+
+    /** Half of the window a file is dropped on: left for subject 1, right for 2 */
+    const subjectAt = (e: React.DragEvent) => e.clientX < window.innerWidth / 2 ? 1 : 2;
+
+    const onDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setDropInto(subjectAt(e));
+    }
+
+    /**
+     * One file replaces the subject of the half it's dropped on, two files replace both subjects. Annotation files (by their extension) go on the subjects instead.
+     */
+    const onDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDropInto(undefined);
+
+        const files = [...e.dataTransfer.files].slice(0, 2);
+        files.forEach((file, i) => file.text()
+            .then(text => {
+                const num = files.length > 1 ? i + 1 : subjectAt(e);
+                if (annotationFile.test(file.name)) loadAnnotations(text, num, file.name);
+                else loadSubject(text, num, file.name);
+            })
+            .catch(error => showError(error as Error, file.name)));
+    }
+
+    const showResult = (result: AlignmentResult) => {
+        setResult(result);
+        setError(undefined);
+        setCursor(undefined);
+        setSelection(undefined);
+    }
+
+    /** Records of the last FASTA file loaded, any of them can become a subject */
+    const [records, setRecords] = useState<FastaRecord[]>([]);
+
+    /** Base pairs or amino acids */
+    const units = stats?.alphabet==Alphabet.Protein ? "aa" : "bp";
 
     return (<>
-        <Canvas>
+        <Canvas onDragOver={onDragOver} onDragLeave={() => setDropInto(undefined)} onDrop={onDrop}>
             <ambientLight intensity={1} />
 
-            <DNAAlignmentVisualizer2 onStats={setStats} fasta1={s1} fasta2={s2} />
+            {permalink !== undefined && <DNAAlignmentVisualizer2
+                onStats={setStats}
+                onResult={showResult}
+                onProgress={setProgress}
+                onRealign={(a, b) => { setS1(a); setS2(b); setFeatures1(undefined); setFeatures2(undefined); }}
+                onPick={setPick}
+                onError={showError}
+                onShare={share}
+                cursorColumn={alignmentText ? cursor : undefined}
+                selectedColumns={selection}
+                fasta1={s1}
+                fasta2={s2}
+                sequences={records.length > 1 ? records : undefined}
+                onMultipleAlignment={setMsa}
+                features1={features1}
+                features2={features2}
+                scoring={permalink?.scoring}
+                mode={permalink?.mode}
+                alphabet={permalink?.alphabet}
+                bothStrands={permalink?.bothStrands}
+                maxHits={permalink?.maxHits}
+                heuristic={permalink?.heuristic}
+                shape={permalink?.shape}
+                camera={permalink?.camera}
+            />}
 
             {
                 !turnOffPostProcessing && <EffectComposer>
@@ -50,14 +223,33 @@ function App() {
             {stats && <div style={{ pointerEvents: 'auto', maxWidth: 500, padding: 30 }} className="vt323-regular">
 
                 <div>
-                    Local Nucleotide Sequence Aligner by <a href="https://x.com/bandinopla" target='_blank'><strong>@Bandinopla</strong></a>
-                    <br/>Using <a href="https://en.wikipedia.org/wiki/Smith%E2%80%93Waterman_algorithm" target='_blank'>Smith–Waterman algorithm</a>
+                    {AlignmentMode[stats.mode]} {Alphabet[stats.alphabet]} Sequence Aligner by <a href="https://x.com/bandinopla" target='_blank'><strong>@Bandinopla</strong></a>
+                    <br/>Using {stats.mode==AlignmentMode.Local
+                        ? <a href="https://en.wikipedia.org/wiki/Smith%E2%80%93Waterman_algorithm" target='_blank'>Smith–Waterman algorithm</a>
+                        : <a href="https://en.wikipedia.org/wiki/Needleman%E2%80%93Wunsch_algorithm" target='_blank'>Needleman–Wunsch algorithm</a>}
                 </div>
 
-                <StrandStats num={1} stats={stats.sequence1} onChange={setS1} />
-                <StrandStats num={2} stats={stats.sequence2} onChange={setS2} />
-                <h1>Alignment's length: <strong>{stats.alignmentLength} bp</strong></h1>
+                <StrandStats num={1} stats={stats.sequence1} unit={units} records={records} features={features1} onLoad={loadSubject} onAnnotations={loadAnnotations} onPaste={setPasteInto} onChange={chooseRecord} onError={showError} />
+                <StrandStats num={2} stats={stats.sequence2} unit={units} records={records} features={features2} onLoad={loadSubject} onAnnotations={loadAnnotations} onPaste={setPasteInto} onChange={chooseRecord} onError={showError} />
+                {result?.outcome == AlignmentOutcome.NoSignificantAlignment && <h1 className="no-alignment">No significant alignment</h1>}
+                <h1>Alignment's length: <strong>{stats.alignmentLength} {units}</strong></h1>
                 <h1>Match: <strong>{(stats.alignmentMatchPercent * 100).toFixed(1)}% </strong></h1>
+                <h3>Scoring: {stats.scoring.matrix? <>matrix <strong>{stats.scoring.matrix.name}</strong></> : <>match <strong>{stats.scoring.match}</strong> | mismatch <strong>{stats.scoring.mismatch}</strong></>} | gap <strong>-{stats.scoring.gap}</strong>{stats.scoring.gapExtend!==undefined && <> | extend <strong>-{stats.scoring.gapExtend}</strong></>}</h3>
+                <h3>Gaps: <strong>{stats.gaps}</strong></h3>
+                <h3>Score: <strong>{stats.score}</strong>{stats.significance && <> | <strong>{stats.significance.bitScore.toFixed(1)}</strong> bits | E-value <strong>{formatProbability(stats.significance.eValue)}</strong></>}</h3>
+                {stats.significance && <h3>λ <strong>{stats.significance.lambda.toFixed(3)}</strong> | K <strong>{stats.significance.K.toFixed(3)}</strong> ( {stats.significance.gapped ? "gapped" : "ungapped estimate"} )</h3>}
+                {stats.heuristic && <h3>Search: <strong>seed-and-extend</strong> ( heuristic ) | word <strong>{stats.heuristic.wordSize}</strong> | band <strong>±{stats.heuristic.bandWidth}</strong> | {stats.heuristic.minSeeds} seeds within {stats.heuristic.maxSeedGap}</h3>}
+                {stats.empirical && <h3>Empirical p-value: <strong>{formatProbability(stats.empirical.pValue)}</strong> ( {stats.empirical.shuffles} shuffles )</h3>}
+                {hits.length > 1 && <HitList hits={hits} units={units} />}
+                {result && pick?.column!==undefined && <AlignmentColumn result={result} column={pick.column} />}
+
+                {result && <div className="downloads">
+                    Download: <button onClick={() => download(formatPair(result), "alignment.pair.txt", "text/plain")}>EMBOSS pair</button>
+                    <button onClick={() => download(formatSam(result), "alignment.sam", "text/plain")}>SAM</button>
+                    <button onClick={() => download(formatJson(result), "alignment.json", "application/json")}>JSON</button>
+                </div>}
+
+                {msa && <MultipleAlignmentSummary msa={msa} />}
 
                 <div>
                     WHERE TO FIND FASTA FILES? <a href="https://www.ncbi.nlm.nih.gov/nuccore/" target='_blank'><strong>ncbi.nlm.nih.gov</strong></a>
@@ -69,45 +261,195 @@ function App() {
 
             </div>}
 
+            {alignmentText && result && result.alignment.length > 0 && <AlignmentPanel result={result} focusColumn={pick?.column} onCursor={setCursor} onSelect={setSelection} />}
+
+            {dropInto && <div className={`vt323-regular drop-zone subject-${dropInto}`}>Drop to replace subject <strong>{dropInto}</strong> (two files replace both)</div>}
+
+            {pasteInto && <PasteDialog num={pasteInto} onPaste={text => loadSubject(text, pasteInto, "pasted sequence") && setPasteInto(undefined)} onClose={() => setPasteInto(undefined)} />}
+
+            {shared && <div style={{ pointerEvents: 'auto' }} className="vt323-regular share-link">
+                {shared.copied ? "Link copied to the clipboard:" : "Link to this view:"}
+                <input readOnly value={shared.url} onFocus={e => e.target.select()} />
+                <button onClick={() => setShared(undefined)}>Dismiss</button>
+            </div>}
+
+            {error && <ErrorPanel error={error.error} source={error.source} onClose={() => setError(undefined)} />}
+
+            {progress && <div style={{ pointerEvents: 'auto' }} className="vt323-regular progress">
+                Aligning... <strong>{(progress.progress * 100).toFixed(0)}%</strong>
+                <div className="progress-bar"><div style={{ width: `${progress.progress * 100}%` }} /></div>
+                <button onClick={progress.cancel}>Cancel</button>
+            </div>}
+
         </div>
     </>
     )
 }
  
 
-function StrandStats({ stats, num, onChange }: {
+/**
+ * Saves the text as a file, through a temporary link
+ */
+function download(text: string, fileName: string, type: string) {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // some browsers start the download after the click returns
+    setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * E-values and p-values: tiny ones in scientific notation, like BLAST prints them
+ */
+function formatProbability(value: number) {
+    return value < .001 ? value.toExponential(1) : value.toPrecision(2);
+}
+
+/**
+ * Every local alignment found, best first. The swatch is the colour its matches get on the strands.
+ */
+function HitList({ hits, units }: { hits: AlignmentHit[], units: string }) {
+    const range = (stats: SequenceStats) => <>{stats.start + 1}–{stats.end + 1}{stats.strand == StrandSense.Minus && " (-)"}</>;
+
+    return (
+        <ol className="hits">
+            {hits.map((hit, i) => <li key={i}>
+                <span className="swatch" style={{ background: "#" + hitColor(i).toString(16).padStart(6, "0") }} />
+                score <strong>{hit.stats.score}</strong> | 1: <strong>{range(hit.stats.sequence1)}</strong> | 2: <strong>{range(hit.stats.sequence2)}</strong> | <strong>{hit.stats.alignmentLength} {units}</strong>, {(hit.stats.alignmentMatchPercent * 100).toFixed(1)}% match
+                {hit.stats.significance && <> | E <strong>{formatProbability(hit.stats.significance.eValue)}</strong></>}
+            </li>)}
+        </ol>
+    );
+}
+
+/**
+ * The columns of the best alignment around a picked one (highlighted), like the pair format prints them
+ */
+function AlignmentColumn({ result, column, context = 12 }: { result: AlignmentResult, column: number, context?: number }) {
+    const rows = alignmentRows(result, result.hits[0]);
+    const from = Math.max(0, column - context);
+    const row = (text: string) => <>{text.slice(from, column)}<mark>{text[column]}</mark>{text.slice(column + 1, column + context + 1)}</>;
+
+    return (
+        <pre className="alignment-column">
+            {row(rows.row1)}<br />
+            {row(rows.markup)}<br />
+            {row(rows.row2)}<br />
+            column <strong>{column + 1}</strong> of {rows.row1.length}
+        </pre>
+    );
+}
+
+/**
+ * Size and conservation of the multiple alignment, with its downloads
+ */
+function MultipleAlignmentSummary({ msa }: { msa: MultipleAlignmentResult }) {
+    const columns = msa.conservation.length;
+    const conserved = msa.conservation.filter(conservation => conservation == 1).length;
+
+    return (
+        <div className="multiple-alignment">
+            <h2>Multiple alignment: <strong>{msa.sequences.length}</strong> sequences, <strong>{columns}</strong> columns</h2>
+            <h3>Fully conserved columns: <strong>{conserved}</strong> ( {(conserved / (columns || 1) * 100).toFixed(1)}% )</h3>
+            <div className="downloads">
+                Download: <button onClick={() => download(formatAlignedFasta(msa), "alignment.aln.fasta", "text/plain")}>aligned FASTA</button>
+                <button onClick={() => download(formatNewick(msa), "guide-tree.nwk", "text/plain")}>guide tree (Newick)</button>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * What went wrong, and where for a parse error, instead of a browser alert
+ */
+function ErrorPanel({ error, source, onClose }: { error: Error, source?: string, onClose?: () => void }) {
+    return (
+        <div style={{ pointerEvents: 'auto' }} className="vt323-regular error-panel" role="alert">
+            <strong>{error.name}</strong>{source && <> in <strong>{source}</strong></>}
+            {error instanceof SequenceParseError && <> at line <strong>{error.line}</strong>, column <strong>{error.column}</strong></>}
+            <p>{error.message}</p>
+            <button onClick={onClose}>Dismiss</button>
+        </div>
+    );
+}
+
+/**
+ * A text box to paste a sequence into, in any of the formats a file may have
+ */
+function PasteDialog({ num, onPaste, onClose }: { num: number, onPaste: (text: string) => void, onClose: () => void }) {
+    const [text, setText] = useState("");
+
+    return (
+        <div style={{ pointerEvents: 'auto' }} className="vt323-regular paste-dialog" onKeyDown={e => e.key == "Escape" && onClose()}>
+            <h2>Paste subject <strong>{num}</strong></h2>
+            <textarea autoFocus spellCheck={false} rows={12} value={text} onChange={e => setText(e.target.value)} placeholder={"FASTA, GenBank, EMBL, FASTQ or just the residues"} />
+            <button disabled={!text.trim()} onClick={() => onPaste(text)}>Align</button>
+            <button onClick={onClose}>Cancel</button>
+        </div>
+    );
+}
+
+/**
+ * Side files of annotations, by extension
+ */
+const annotationFile = /\.(bed|gff3?)$/i;
+
+function StrandStats({ stats, num, unit, records, features, onLoad, onAnnotations, onPaste, onChange, onError }: {
     stats: SequenceStats,
     num: number,
-    onChange?: (text: string) => void
+    unit: string,
+    records: FastaRecord[],
+    features?: Feature[],
+    /** A file was picked: its text and name */
+    onLoad?: (text: string, num: number, source: string) => void,
+    /** An annotation file was picked: its text and name */
+    onAnnotations?: (text: string, num: number, source: string) => void,
+    onPaste?: (num: number) => void,
+    onChange?: (record: FastaRecord, num: number) => void,
+    /** A file picked couldn't be read */
+    onError?: (error: Error, source: string) => void
 }) {
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const annotationsInputRef = useRef<HTMLInputElement>(null);
 
-    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>, onText?: (text: string, num: number, source: string) => void) => {
         const file = e.target.files?.[0];
         if (!file) return;
-        const reader = new FileReader();
-        reader.onload = () => {
-            const text = reader.result as string;
-            const isFASTA = text.startsWith(">") && text.match(/[ACGTURYKMSWBDHVN]/i);
-            if (isFASTA) {
-                onChange?.(text);
-            } else {
-                alert("Invalid FASTA file.");
-            }
-        };
-        reader.readAsText(file);
+        file.text()
+            .then(text => onText?.(text, num, file.name))
+            .catch(error => onError?.(error as Error, file.name));
+        // the same file again is a change too
+        e.target.value = "";
     };
 
     return (
         <div>
             <h2>Subject <strong>{num}</strong>: <strong>{stats.name}</strong></h2>
-            <h3>( <strong>{stats.length} bp</strong> ) Start: <strong>{stats.start}</strong> | End: <strong>{stats.end}</strong></h3>
-            <button onClick={() => fileInputRef.current?.click()}>Change subject (*.fasta)</button>
+            <h3>( <strong>{stats.length} {unit}</strong> ){stats.start >= 0 && <> Start: <strong>{stats.start + 1}</strong> | End: <strong>{stats.end + 1}</strong></>}{stats.strand==StrandSense.Minus && <> | <strong>minus</strong> strand</>}{!!features?.length && <> | <strong>{features.length}</strong> features</>}</h3>
+            <button onClick={() => fileInputRef.current?.click()}>Open file</button>
+            <button onClick={() => onPaste?.(num)}>Paste</button>
+            <button onClick={() => annotationsInputRef.current?.click()}>Annotations (BED, GFF3)</button>
+            {records.length > 1 && <select
+                value={records.findIndex(record => record.name == stats.name)}
+                onChange={e => onChange?.(records[Number(e.target.value)], num)}
+            >
+                <option value={-1} disabled>Pick a record ({records.length})...</option>
+                {records.map((record, i) => <option key={i} value={i}>{record.id} {record.description} ({record.sequence.length} {unit})</option>)}
+            </select>}
             <input
                 type="file"
-                accept=".fasta"
+                accept=".fasta,.fas,.fa,.fna,.ffn,.faa,.frn,.gb,.gbk,.genbank,.embl,.fastq,.fq,.seq,.txt,text/plain"
                 ref={fileInputRef}
-                onChange={handleFile}
+                onChange={e => handleFile(e, onLoad)}
+                style={{ display: 'none' }}
+            />
+            <input
+                type="file"
+                accept=".bed,.gff,.gff3,.txt,text/plain"
+                ref={annotationsInputRef}
+                onChange={e => handleFile(e, onAnnotations)}
                 style={{ display: 'none' }}
             />
         </div>
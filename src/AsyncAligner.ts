@@ -0,0 +1,141 @@
+import { AlignmentError, type AlignerOptions, type AlignmentResult, type Sequence } from "./Aligner";
+import type { DotPlot, DotPlotOptions } from "./DotPlot";
+import { FastaParseError, SequenceParseError } from "./Fasta";
+import type { MultipleAlignmentOptions, MultipleAlignmentResult } from "./MultipleAlignment";
+
+export type AlignRequest = {
+    fasta1:string 
+    fasta2:string
+    options:Omit<AlignerOptions, "onProgress">
+}
+
+/**
+ * Sent instead of an `AlignRequest` for a multiple alignment, see `alignMultipleAsync`
+ */
+export type MultipleAlignRequest = {
+    sequences:Sequence[]
+    options:Omit<MultipleAlignmentOptions, "onProgress">
+}
+
+/**
+ * Sent for a dot plot, see `computeDotPlotAsync`
+ */
+export type DotPlotRequest = {
+    sequence1:string
+    sequence2:string
+    options:Omit<DotPlotOptions, "onProgress">
+}
+
+export type AlignResponse<T = AlignmentResult> = 
+    | { type:"progress", progress:number }
+    | { type:"done", result:T }
+    | { type:"error", error:SerializedError }
+
+/**
+ * An error as it crosses from the worker: `postMessage` keeps neither the class nor the extra fields
+ */
+export type SerializedError = {
+    name:string
+    message:string
+    line?:number
+    column?:number
+}
+
+/**
+ * The typed error back, so callers can tell a bad input (`SequenceParseError`, `FastaParseError`) from bad options (`AlignmentError`)
+ */
+function deserializeError( { name, message, line, column }:SerializedError ) {
+    switch( name )
+    {
+        case "FastaParseError": return new FastaParseError(message, line ?? 1, column ?? 1);
+        case "SequenceParseError": return new SequenceParseError(message, line ?? 1, column ?? 1);
+        case "AlignmentError": return new AlignmentError(message);
+        default: return new Error(message);
+    }
+}
+
+export type AlignAsyncParams = {
+    /** Fraction (0 to 1) of the work done */
+    onProgress?:(progress:number)=>void
+    /** Aborting terminates the worker and rejects with an `AbortError` */
+    signal?:AbortSignal
+}
+
+/**
+ * Same as `new Aligner(...)` but in a Web Worker, so the page stays responsive while big sequences are aligned.
+ * @returns the result as plain data (the `Aligner` instance stays in the worker)
+ * @throws (rejects with) the errors of the Aligner: `SequenceParseError` (`FastaParseError` for FASTA), `AlignmentError`
+ */
+export function alignAsync( fasta1:string, fasta2:string, options:AlignRequest["options"] = {}, params:AlignAsyncParams = {} ) {
+    return runWorker<AlignmentResult>({ fasta1, fasta2, options } satisfies AlignRequest, params);
+}
+
+/**
+ * Same as `alignMultiple(...)` but in a Web Worker: it takes one alignment per pair of sequences, so it is slow for many or long ones.
+ * @throws (rejects with) the errors of `alignMultiple`: `AlignmentError`, `SequenceParseError`
+ */
+export function alignMultipleAsync( sequences:Sequence[], options:MultipleAlignRequest["options"] = {}, params:AlignAsyncParams = {} ) {
+    return runWorker<MultipleAlignmentResult>({ sequences, options } satisfies MultipleAlignRequest, params);
+}
+
+/**
+ * Same as `computeDotPlot(...)` but in a Web Worker: words with mismatches take long on long sequences.
+ * @throws (rejects with) an `AlignmentError` if the plot takes too many words compared
+ */
+export function computeDotPlotAsync( sequence1:string, sequence2:string, options:DotPlotRequest["options"] = {}, params:AlignAsyncParams = {} ) {
+    return runWorker<DotPlot>({ sequence1, sequence2, options } satisfies DotPlotRequest, params);
+}
+
+/**
+ * Posts a request to a new worker and waits for its result. One worker per request: cancelling is terminating it.
+ */
+function runWorker<T>( request:AlignRequest | MultipleAlignRequest | DotPlotRequest, { onProgress, signal }:AlignAsyncParams ) {
+    return new Promise<T>( (resolve, reject) => {
+
+        if( signal?.aborted )
+        {
+            reject( signal.reason );
+            return;
+        }
+
+        const worker = new Worker(new URL("./AlignerWorker.ts", import.meta.url), { type: "module" });
+
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener("abort", onAbort);
+        }
+
+        const onAbort = () => {
+            finish();
+            reject( signal!.reason );
+        }
+
+        signal?.addEventListener("abort", onAbort);
+
+        worker.onmessage = ( e:MessageEvent<AlignResponse<T>> ) => {
+            const response = e.data;
+
+            switch( response.type )
+            {
+                case "progress":
+                    onProgress?.( response.progress );
+                    break;
+                case "done":
+                    finish();
+                    resolve( response.result );
+                    break;
+                case "error":
+                    finish();
+                    reject( deserializeError(response.error) );
+                    break;
+            }
+        }
+
+        worker.onerror = e => {
+            finish();
+            reject( new Error(e.message) );
+        }
+
+        worker.postMessage(request);
+    });
+}
@@ -1,16 +1,44 @@
-import { CameraControls } from "@react-three/drei";
-import { useEffect, useState } from "react";
-import { BufferAttribute, BufferGeometry, Clock, Color, Object3D, Points, ShaderMaterial, Vector3 } from "three";
-import { Aligner, Result, type AlignmentStats } from "./Aligner";
-import { useFrame } from "@react-three/fiber";
+import { CameraControls, Html } from "@react-three/drei";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { BufferAttribute, BufferGeometry, Clock, Color, Line, LineBasicMaterial, LineSegments, MathUtils, Object3D, Points, Vector3, type Camera, type Intersection, type Raycaster } from "three";
+import { Alphabet, detectAlphabet } from "./Alphabet";
+import { alignedRange, alignedSequence2, AlignmentMode, AlignmentOutcome, Result, StrandSense, type AlignmentResult, type AlignmentStats, type Sequence } from "./Aligner";
+import type { ColumnRange } from "./AlignmentPanel";
+import { alignAsync, alignMultipleAsync, computeDotPlotAsync } from "./AsyncAligner";
+import type { DotPlot } from "./DotPlot";
+import { DotPlotView } from "./DotPlotView";
+import type { Feature } from "./Annotations";
+import { FeatureTrack, type FeatureLabel } from "./FeatureTrack";
+import { FillTableView } from "./FillTableView";
+import { hitColor, MatchColor, scoreColor } from "./Palette";
+import type { GuideTree, MultipleAlignmentResult } from "./MultipleAlignment";
+import { ScoreTerrain, type ScoreCell } from "./ScoreTerrain";
+import { StrandLevels } from "./StrandLevels";
+import { formatRecord, parseSequences } from "./SequenceFormats";
+import { describePointer, recordFill, type FillRecording } from "./StepByStep";
+import { findScoringPreset, ScoringPresets, type ScoringPresetName, type ScoringScheme } from "./Scoring";
+import { parseSubstitutionMatrix, SubstitutionMatrices } from "./SubstitutionMatrix";
+import type { CameraPose, Permalink } from "./Permalink";
+import type { SeedParameters } from "./SeedAndExtend";
+import { useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
 import { button, folder, useControls } from 'leva'
-import { lerp } from "three/src/math/MathUtils.js";
 
 enum DisplayShape {
     Spring ,
     Circle
 } 
 
+/**
+ * What the scene shows
+ */
+enum View {
+    Strands = "strands",
+    ScoreMatrix = "score matrix",
+    DotPlot = "dot plot",
+    StepByStep = "step by step",
+    MultipleAlignment = "multiple alignment",
+}
+
 const dnaColorMap: Record<string, number> = {
   A: 0xff5555, // red
   T: 0x55ff55, // green
@@ -29,127 +57,146 @@ const dnaColorMap: Record<string, number> = {
   N: 0x888888, // any base - dark gray
 };
 
-const letterToColor = (letter: string) => dnaColorMap[letter] ?? 0; 
-
 /**
- * The material of each point
+ * Zappo colours: amino acids grouped by physicochemical property.
+ * @link https://www.jalview.org/help/html/colourSchemes/zappo.html
  */
-const material = new ShaderMaterial({
-    uniforms: {
-        time: { value: 0 },
-        pixelRatio: { value: Math.min(window.devicePixelRatio, 2) },
-    },
-    vertexShader: `
-        attribute float size;
-        varying vec3 vColor;
-        uniform float time;
-        uniform float pixelRatio;
-        
-        void main() {
-            vColor = color;
-            vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-            gl_PointSize = size * pixelRatio * (300.0 / -mvPosition.z);
-            gl_Position = projectionMatrix * mvPosition;
-        }
-    `,
-    fragmentShader: `
-        varying vec3 vColor;
-        uniform float time;
-        
-        void main() {
-            vec2 uv = gl_PointCoord.xy - 0.5;
-            float dist = length(uv);
-            if (dist > 0.5) discard;
-            float alpha = 1.0;//1.0 - smoothstep(0.4, 0.5, dist);
-            float glow = exp(-dist * 3.0) * 0.5 + 0.5;
-            vec3 finalColor = vColor  * glow;
-            gl_FragColor = vec4(finalColor, alpha);
-        }
-    `,
-    transparent: true, 
-    
-    //depthWrite: false,
-    //blending: AdditiveBlending,
-    vertexColors: true, 
-});
+const aminoAcidColorMap: Record<string, number> = {
+  I: 0xffafaf, L: 0xffafaf, V: 0xffafaf, A: 0xffafaf, M: 0xffafaf, // aliphatic/hydrophobic - salmon
+  F: 0xffc800, W: 0xffc800, Y: 0xffc800, // aromatic - orange
+  K: 0x6464ff, R: 0x6464ff, H: 0x6464ff, // positive - blue
+  D: 0xff0000, E: 0xff0000, // negative - red
+  S: 0x00ff00, T: 0x00ff00, N: 0x00ff00, Q: 0x00ff00, // hydrophilic - green
+  P: 0xff00ff, G: 0xff00ff, // conformationally special - magenta
+  C: 0xffff00, // cysteine - yellow
+};
+
+const letterToColor = (letter: string, alphabet = Alphabet.Nucleotide) => ( alphabet==Alphabet.Protein ? aminoAcidColorMap : dnaColorMap )[letter?.toUpperCase()] ?? 0; 
 
 /**
- * Positions a point in the Spring arrangement.
+ * How a residue aligned, in words
  */
-function addSpringPosition(positions: Float32Array, i: number, numParticles: number, ang:number, spins: number, ratio: number ) {
-    //const a = (i / numParticles) * (Math.PI * 1.9) + 1
-
-    const a = ang;
-
-    const x = Math.cos(a)
-    const y = Math.sin(a);
-
-    const cross = new Vector3(x, y, 0).normalize();
-
-    const p = new Vector3(x, y, 0);
-
-    p.add(cross.multiplyScalar(Math.sin(a * spins) * .2 * ratio))
-
-    positions[i * 3] = p.x;
-    positions[i * 3 + 1] = p.y;
-    positions[i * 3 + 2] = p.z + Math.cos(a * spins) * .2 * ratio;
-}
+const resultLabels: Record<Result, string> = {
+    [Result.GOOD_MATCH]: "match",
+    [Result.AMBIGUOUS_MATCH]: "ambiguous match",
+    [Result.NO_MATCH]: "mismatch",
+    [Result.A_NOMATCH]: "sequence 1 against a gap",
+    [Result.B_NOMATCH]: "sequence 2 against a gap",
+};
 
 /**
- * Positions a point in the flat circle arrangement.
+ * A residue (point) of one of the strands, as picked with the pointer
  */
-function addCirclePosition(positions: Float32Array, i: number, numParticles: number, ang:number, ratio: number, positionMatches:boolean) {
-    const a = ang; // (i / numParticles) * (Math.PI * 1.9) + 1
-
-
-    if (ratio < 1) ratio = 1 - .1 * ratio;
-
-    const x = Math.cos(a) * ratio;
-    const y = Math.sin(a) * ratio;
-
-
-    positions[i * 3] = x;
-    positions[i * 3 + 1] = y;
-    positions[i * 3 + 2] = positionMatches?.03:0;
+export type ResiduePick = {
+    strand:1 | 2
+    /** Index of the point in its strand */
+    point:number
+    name:string
+    /** 1-based, in the sequence as given (on the minus strand `residue` is the complement of the base at this position) */
+    position:number
+    /** "-" if the point is a gap */
+    residue:string
+    /** How it aligned, undefined if it's in no alignment */
+    state?:Result
+    /** Which hit it is in (index in `AlignmentResult.hits`) */
+    hit?:number
+    /** Column of the best alignment it is in */
+    column?:number
+    /** What it is aligned to in the best alignment */
+    partner?:{ point:number, name:string, position:number, residue:string }
+    /** Annotated features it is in, as `type name` */
+    features?:string[]
 }
 
 /**
- * Represents a DNA Subject being aligned. The matches and mismatches will be shown with a green and red color, the rest will have a low saturation/brightness.
+ * Represents a Subject (DNA or protein) being aligned. The matches and mismatches will be shown with a green and red color, the rest will have a low saturation/brightness.
+ * Long ones are drawn at the level of detail the camera needs (see `StrandLevels`), so a chromosome is a ring of bins until zooming in on it.
  */
 class Strand extends Points {
     private sizes: Float32Array;
-    private springShape: Float32Array;
-    private circleShape: Float32Array;
-    private myShape: Float32Array;
-    private targetShape: Float32Array;
-    private currentShape:DisplayShape; 
-    private lerpFactor = 0;
+    /** Sizes before highlighting anything */
+    private baseSizes: Float32Array;
+    private levels: StrandLevels;
+    /** Colours or sizes changed since the levels were last refreshed */
+    private dirty = true;
+    /** Points showing how they aligned (see `paint`), and the G/C residues (DNA only) */
+    private lit: Uint8Array;
+    private gc?: Uint8Array;
+    /** Points that aligned in some hit */
+    private hasState: Uint8Array;
     private pointSize = 0;
-
-    constructor(readonly aligner: Aligner, imA:boolean, ratio: number = 1) {
+    /** Index in the alignment of each point, -1 for the residues outside of it */
+    private alignmentIndexes: Int32Array;
+    /** Index in the drawn sequence of each point (gaps repeat the residue before them) */
+    private sequenceIndexes: Int32Array;
+    private otherHits: Map<number, { res:Result, hit:number }>;
+    private mySequence: string;
+    private alignmentStart: number;
+    /** Point made bigger by `highlight` */
+    private highlighted?: number;
+    /** Columns of the alignment made bigger and brighter by `selectColumns` */
+    private selection?: ColumnRange;
+    /** First column of the alignment shown highlighted, see `revealAlignment` */
+    private revealFrom = 0;
+    /** Colors of the points with the alignment highlighted, and with none of it highlighted (see `revealAlignment`) */
+    private litColors: Float32Array;
+    private dimColors: Float32Array;
+    /** Angle of point 0, and from one point to the next */
+    private startAng: number;
+    readonly stepAng: number;
+    /** First point of each residue of the drawn sequence */
+    private residuePoints: Int32Array;
+    /** The drawn sequence is the reverse complement of the one given (minus strand) */
+    readonly reversed: boolean;
+
+    constructor(readonly result: AlignmentResult, readonly imA:boolean, ratio: number = 1) {
 
         const NoMatchColor = 0xd62828;
-        const MatchColor = 0x06d6a0;
+        const AmbiguousMatchColor = 0xffd166;
         
-        const longest = aligner.maxSequenceLength;
+        const longest = Math.max( result.sequence1.sequence.length, result.sequence2.sequence.length );
 
         /**
          * We use the longest sequence as the "norm" to distribute the 360 degrees display to create a step unit, to use anytime we have to advance one step.
          */
-        const imTheLongest = imA ? aligner.sequence1.sequence.length == longest : aligner.sequence2.sequence.length == longest;
-        const mySequence = imA ? aligner.sequence1.sequence : aligner.sequence2.sequence;
+        const imTheLongest = imA ? result.sequence1.sequence.length == longest : result.sequence2.sequence.length == longest;
+        /**
+         * On the minus strand we draw the reverse complement, which is what got aligned.
+         */
+        const mySequence = imA ? result.sequence1.sequence : alignedSequence2(result);
 
-        const head = aligner.alignment[0];
-        const tail = aligner.alignment.at(-1)!;
+        /**
+         * First and last residue of my sequence that made it into the alignment, in the coordinates of the drawn sequence. 
+         * The alignment itself may start or end with gaps (global modes) so we can't just look at its head and tail.
+         */
+        const myStats = alignedRange( imA ? result.stats.sequence1 : result.stats.sequence2 );
+        const otherStats = alignedRange( imA ? result.stats.sequence2 : result.stats.sequence1 );
 
-        const matchStartAt = (imA ? head.iA : head.iB) - 1;
-        const matchEndsAt = (imA ? tail.iA : tail.iB) + 1; //+1 so we ignore gaps  
+        /**
+         * The other hits don't shape the strand (only the best one does), their residues are just painted: sequence index -> how it aligned and in which hit.
+         */
+        const otherHits = new Map<number, { res:Result, hit:number }>();
+        const myStrand = result.stats.sequence2.strand;
+
+        result.hits.forEach( (hit, hitIndex) => {
+            if( hitIndex==0 ) return;
+
+            // the hit may be on the other strand of sequence 2 than the one drawn
+            const flip = !imA && hit.stats.sequence2.strand!=myStrand;
+
+            for (const residue of hit.alignment) {
+                if( residue.res==( imA ? Result.B_NOMATCH : Result.A_NOMATCH ) ) continue; // not one of my residues
+
+                const index = imA ? residue.iA : flip ? mySequence.length - 1 - residue.iB : residue.iB;
+                if( !otherHits.has(index) ) otherHits.set(index, { res: residue.res, hit: hitIndex });
+            }
+        });
 
         /**
          * Gaps are places in the DNA where there was no match and the algorithm decided to skip the residue and try with the next one.
          * It basically considers that mismatch as a mutation and moves on...
          */
-        const gaps = aligner.alignment.reduce((total, permutation) => {
+        const gaps = result.alignment.reduce((total, permutation) => {
             const gap = permutation.res == Result.A_NOMATCH || permutation.res == Result.B_NOMATCH;
             return total + (gap ? 1 : 0);
         }, 0);
@@ -163,7 +210,7 @@ class Strand extends Points {
         const numParticles = longest + gaps;
 
         /**
-         * This is a "normalized" step size, common to all Strand using this aligner. So the visualization overlaps correctly.
+         * This is a "normalized" step size, common to all Strand using this result. So the visualization overlaps correctly.
          * "*.9" so there's a gap to visually see the head and tail of a stang.
          */
         const stepAng = ((Math.PI*2)*.9) / numParticles ;
@@ -171,80 +218,93 @@ class Strand extends Points {
         /**
          * A strand has a segment in which the alignment occured. So it is made out of 3 parts... the start, the alignment, and the end...
          */
-        const myParticlesCount =  ( imA? head.iA : head.iB ) 
-                                + aligner.alignment.length // may include gaps (repetitions)... that's why we do this...
-                                + ( mySequence.length-( imA? tail.iA : tail.iB ) );  
+        const myParticlesCount =  myStats.start 
+                                + result.alignment.length // may include gaps (repetitions)... that's why we do this...
+                                + ( mySequence.length - myStats.end - 1 );  
         
 
         //
         // calculating how many units of offset we start with...
         // so we calculate our sequence start index in relation to the longest sequence.
         //
-        let ang = stepAng * ( imTheLongest? 0 : 
-                            ( imA? head.iB - head.iA : // the index at the longest - our index
-                                   head.iA - head.iB ) 
-                                ); 
+        const startAng = stepAng * ( imTheLongest? 0 : 
+                            otherStats.start - myStats.start // the index at the longest - our index
+                        ); 
 
         const particleSize = .06;
-        const spins = 112;
 
-        console.log("TOTAL PARTICLES", myParticlesCount)
-
-        const geometry = new BufferGeometry();
-        const positions = new Float32Array(myParticlesCount * 3);
         const colors = new Float32Array(myParticlesCount * 3);
+        const dimColors = new Float32Array(myParticlesCount * 3);
+        const alignmentIndexes = new Int32Array(myParticlesCount).fill(-1);
+        const sequenceIndexes = new Int32Array(myParticlesCount);
         const sizes = new Float32Array(myParticlesCount);
-
-        const springShape = new Float32Array(myParticlesCount * 3);
-        const circleShape = new Float32Array(myParticlesCount * 3);
+        const residuePoints = new Int32Array(mySequence.length).fill(-1);
+        const matched = new Float32Array(myParticlesCount);
+        const hasState = new Uint8Array(myParticlesCount);
+        const gc = result.stats.alphabet==Alphabet.Protein ? undefined : new Uint8Array(myParticlesCount);
  
         const color = new Color() ;
 
-        let alignmentIndex = -1;
-        let sequenceIndex = 0;
-
         for (let i = 0; i < myParticlesCount; i++) {
 
             let resiudeMatches = false;
 
+            // the start, the alignment, or the end...
+            const alignmentIndex = i - myStats.start;
+            const permutation = result.alignment[alignmentIndex];
+            const sequenceIndex = alignmentIndex < 0 ? i 
+                                : permutation ? ( imA ? permutation.iA : permutation.iB ) 
+                                : myStats.end + 1 + alignmentIndex - result.alignment.length;
+
+            sequenceIndexes[i] = sequenceIndex;
+            if( residuePoints[sequenceIndex] < 0 ) residuePoints[sequenceIndex] = i;
+
             const letterColor = mySequence[sequenceIndex];
-            let residueColor = letterToColor(letterColor);
+            if( gc ) gc[i] = "GCSgcs".includes(letterColor) ? 1 : 0;
+            let residueColor = letterToColor(letterColor, result.stats.alphabet);
             let colorMult = -.3;
             let brightness = .60;
 
-            const inAlignmentRange = sequenceIndex > matchStartAt && sequenceIndex < matchEndsAt;
+            color.set(residueColor);
+            color.offsetHSL(0, colorMult, -(1 - brightness))
+            color.toArray(dimColors, i * 3);
 
-            sequenceIndex++;
+            if (permutation) {
+                alignmentIndexes[i] = alignmentIndex;
+                hasState[i] = 1;
 
-            if (inAlignmentRange) {
                 colorMult = 4;
-                alignmentIndex++;
                 brightness = 1.2;
 
-                //only increment sequence index if we weren't skiped
-                const permutation = aligner.alignment[alignmentIndex];
-
-                if (permutation) {
-                    sequenceIndex = imA ? permutation.iA : permutation.iB;
-
-                    switch (permutation.res) {
-                        case Result.NO_MATCH:
-                            residueColor = NoMatchColor;
-                            break;
-                        case Result.A_NOMATCH: //gap, 
-                            residueColor = imA ? NoMatchColor : 0; // black is like a gap... 
-                            break;
-                        case Result.B_NOMATCH:
-                            residueColor = imA ? 0 : NoMatchColor;
-                            break;
-                        default:
-                            residueColor = MatchColor;
-                            resiudeMatches = true;
-                    }
- 
+                switch (permutation.res) {
+                    case Result.NO_MATCH:
+                        residueColor = NoMatchColor;
+                        break;
+                    case Result.A_NOMATCH: //gap, 
+                        residueColor = imA ? NoMatchColor : 0; // black is like a gap... 
+                        break;
+                    case Result.B_NOMATCH:
+                        residueColor = imA ? 0 : NoMatchColor;
+                        break;
+                    case Result.AMBIGUOUS_MATCH:
+                        residueColor = AmbiguousMatchColor;
+                        resiudeMatches = true;
+                        break;
+                    default:
+                        residueColor = MatchColor;
+                        resiudeMatches = true;
                 }
             }
-
+            else if( otherHits.has(sequenceIndex) )
+            {
+                const { res, hit } = otherHits.get(sequenceIndex)!;
+                hasState[i] = 1;
+
+                colorMult = 2;
+                brightness = 1;
+                resiudeMatches = res==Result.GOOD_MATCH || res==Result.AMBIGUOUS_MATCH;
+                residueColor = resiudeMatches ? hitColor(hit) : NoMatchColor;
+            }
 
             color.set(residueColor);
             color.offsetHSL(0, colorMult, -(1 - brightness))
@@ -253,85 +313,180 @@ class Strand extends Points {
             colors[i * 3 + 1] = color.g;
             colors[i * 3 + 2] = color.b;
             sizes[i] = particleSize * (0.6 + Math.random() * 0.5);
-
-            addSpringPosition(springShape, i, myParticlesCount, ang, spins, ratio );
-            addCirclePosition(circleShape, i, myParticlesCount, ang, ratio, resiudeMatches);
-
-            positions[i * 3] = springShape[i * 3]
-            positions[i * 3 + 1] = springShape[i * 3 + 1]
-            positions[i * 3 + 2] = springShape[i * 3 + 2]
-
-            ang += stepAng;
+            matched[i] = resiudeMatches ? 1 : 0;
         }
 
-        geometry.setAttribute('position', new BufferAttribute(positions, 3));
-        geometry.setAttribute('color', new BufferAttribute(colors, 3));
-        geometry.setAttribute('size', new BufferAttribute(sizes, 1));
-
-        geometry.computeBoundingSphere();
+        // the shapes are made on the GPU out of the angle of each point
+        const levels = new StrandLevels( myParticlesCount, startAng, stepAng, ratio, particleSize, colors, sizes, matched );
 
-        super(geometry, material);
+        super(levels.levels[0].geometry, levels.material);
 
         this.sizes = sizes;
-
-        this.myShape = positions;
-        this.targetShape = springShape;
-        this.springShape = springShape;
-        this.circleShape = circleShape;
-        this.currentShape = DisplayShape.Spring;
+        this.baseSizes = sizes.slice();
+        this.alignmentIndexes = alignmentIndexes;
+        this.sequenceIndexes = sequenceIndexes;
+        this.otherHits = otherHits;
+        this.mySequence = mySequence;
+        this.alignmentStart = myStats.start;
+        this.litColors = colors.slice();
+        this.dimColors = dimColors;
+        this.startAng = startAng;
+        this.stepAng = stepAng;
+        this.residuePoints = residuePoints;
+        this.reversed = !imA && result.stats.sequence2.strand==StrandSense.Minus;
+
+        this.levels = levels;
+        this.lit = hasState.slice();
+        this.gc = gc;
+        this.hasState = hasState;
         this.pointSize = particleSize;
     }
 
-    update(delta: number) { 
- 
-        if( this.lerpFactor<=0 ) return;
-
-        const myShape = this.myShape//this.geometry.attributes.position.array
+    /**
+     * Animates the shape and draws the level of detail `camera` needs
+     * @param viewportHeight in pixels
+     */
+    update(delta: number, camera: Camera, viewportHeight: number) { 
 
-        for (let i = 0; i < this.myShape.length; i+=3 ) { 
-
-            myShape[i] = lerp( this.myShape[i], this.targetShape[i], 1-this.lerpFactor );
-            myShape[i+1] = lerp( this.myShape[i+1], this.targetShape[i+1],  1-this.lerpFactor );
-            myShape[i+2] = lerp( this.myShape[i+2], this.targetShape[i+2], 1-this.lerpFactor );
-            
+        if( this.dirty )
+        {
+            this.levels.refresh(this.lit, this.gc);
+            this.dirty = false;
         }
 
-        this.lerpFactor-= delta; 
-        this.geometry.attributes.position.needsUpdate = true
-
-        console.log( this.lerpFactor )
+        this.levels.animate(delta);
+        this.geometry = this.levels.choose(this, camera, viewportHeight);
     }
 
     displayAs( shape:DisplayShape )
     {  
-        console.log( shape, this.currentShape)
-        if( this.currentShape==shape ) return;
-        this.currentShape = shape;
-        this.lerpFactor = 1;
+        this.levels.morphTo( shape==DisplayShape.Circle ? 1 : 0 );
+    }
 
-        switch( shape )
-        {
-            case DisplayShape.Circle:
-                this.targetShape = this.circleShape;
-                break;
-            case DisplayShape.Spring:
-                this.targetShape = this.springShape;
-                break;
+    /**
+     * The points come from the shader, so does picking them (see `StrandLevels.raycast`)
+     */
+    raycast( raycaster:Raycaster, intersects:Intersection[] )
+    {
+        this.levels.raycast(this, raycaster, intersects);
+    }
+
+    /**
+     * Highlights only the columns of the alignment from `from` on (the traceback builds the alignment from its tail), the rest look like unaligned residues.
+     */
+    revealAlignment( from:number )
+    {
+        this.revealFrom = from;
+        this.paint();
+    }
+
+    private isSelected( point:number )
+    {
+        const column = this.alignmentIndexes[point];
+        return !!this.selection && column>=this.selection.from && column<=this.selection.to;
+    }
+
+    private paint()
+    {
+        const colors = this.levels.levels[0].geometry.attributes.color.array as Float32Array;
+
+        for (let i = 0; i < this.alignmentIndexes.length; i++) {
+            // residues of the other hits aren't in the best alignment, so they show whatever is revealed of it
+            const column = this.alignmentIndexes[i];
+            const lit = column < 0 || column >= this.revealFrom;
+            const source = lit ? this.litColors : this.dimColors;
+            const boost = this.isSelected(i) ? 1.8 : 1;
+
+            for (let c = 0; c < 3; c++) colors[i * 3 + c] = source[i * 3 + c] * boost;
+            this.lit[i] = lit ? this.hasState[i] : 0;
         }
 
-        console.log("GOGO", this.lerpFactor)
+        this.dirty = true;
+    }
+
+    private updateSizes()
+    {
+        for (let i = 0; i < this.sizes.length; i++) {
+            this.sizes[i] = this.baseSizes[i] * ( i==this.highlighted ? 4 : this.isSelected(i) ? 2 : 1 );
+        }
+        this.dirty = true;
     }
 
     setPointSize( newSize:number )
     { 
         for (let i = 0; i < this.sizes.length; i++) { 
-            this.sizes[i] = ( this.pointSize*newSize ) * (0.6 + Math.random() * 0.5);
+            this.baseSizes[i] = ( this.pointSize*newSize ) * (0.6 + Math.random() * 0.5);
         }
-        this.geometry.attributes.size.needsUpdate = true
+        this.updateSizes();
+    }
+
+    /**
+     * Makes the residues of some columns of the alignment stand out (bigger and brighter), `undefined` to go back to normal
+     */
+    selectColumns( range?:ColumnRange )
+    {
+        this.selection = range;
+        this.updateSizes();
+        this.paint();
+    }
+
+    /**
+     * Where a point is right now (shapes animate), in the coordinates of the strand
+     */
+    pointPosition( point:number, target:Vector3 )
+    {
+        return this.levels.position( point, target );
+    }
+
+    /**
+     * The residue of my sequence (as drawn) a point stands for, and how it aligned
+     */
+    residueAt( point:number )
+    {
+        const column = this.alignmentIndexes[point];
+        const sequenceIndex = this.sequenceIndexes[point];
+        const otherHit = column<0 ? this.otherHits.get(sequenceIndex) : undefined;
+
+        return {
+            sequenceIndex,
+            residue: this.mySequence[sequenceIndex],
+            column: column<0 ? undefined : column,
+            state: column<0 ? otherHit?.res : this.result.alignment[column].res,
+            hit: column<0 ? otherHit?.hit : 0,
+        };
+    }
+
+    /**
+     * Angle around the strand of the residue at a position (0-based, in the sequence as given), the way `stepAng` places the points
+     */
+    angleOfPosition( position:number )
+    {
+        const length = this.mySequence.length;
+        const clamped = Math.min( Math.max(position, 0), length - 1 );
+        const point = this.residuePoints[ this.reversed ? length - 1 - clamped : clamped ];
+
+        return this.startAng + point * this.stepAng;
+    }
+
+    /**
+     * The point of a column of the best alignment
+     */
+    pointOfColumn( column:number )
+    {
+        return this.alignmentStart + column;
+    }
+
+    /**
+     * Makes a point stand out (bigger), `undefined` to go back to normal
+     */
+    highlight( point?:number )
+    {
+        this.highlighted = point;
+        this.updateSizes();
     }
 
     dispose() {
-        this.geometry.dispose() 
+        this.levels.dispose();
     }
 }
 
@@ -339,34 +494,119 @@ class Strand extends Points {
  * An object containing the 2 Subjects being aligned
  */
 class Alignment extends Object3D {
-    readonly aligner: Aligner;
+    readonly result: AlignmentResult;
     private strand1: Strand;
     private strand2: Strand;
     private clock: Clock;
+    /** A rung between the residues of a column of the alignment, see `setCursor` */
+    private cursor: Line<BufferGeometry, LineBasicMaterial>;
+    private cursorColumn?: number;
+    /** Annotations of sequence 1 and 2, see `setFeatures` */
+    private tracks: FeatureTrack[] = [];
 
     readonly stats:AlignmentStats;
 
-    constructor(dataSequence1: string, dataSequence2: string) {
+    constructor(result: AlignmentResult) {
         super();
 
-        this.aligner = new Aligner(dataSequence1, dataSequence2)
-        this.stats = this.aligner.stats;
+        this.result = result;
+        this.stats = result.stats;
 
-        this.strand1 = new Strand(this.aligner, true, 1);
+        this.strand1 = new Strand(result, true, 1);
         this.add(this.strand1)
 
-        this.strand2 = new Strand(this.aligner, false, .7);
+        this.strand2 = new Strand(result, false, .7);
    
         this.add(this.strand2)
 
         this.clock = new Clock()
 
+        this.cursor = new Line( new BufferGeometry().setFromPoints([ new Vector3(), new Vector3() ]), new LineBasicMaterial({ color: new Color(4, 4, 4), toneMapped: false }) );
+        this.cursor.visible = false;
+        this.add(this.cursor)
     }
 
-    update() {
+    /**
+     * @param viewportHeight in pixels, for the level of detail of the strands
+     */
+    update(camera: Camera, viewportHeight: number) {
         const delta = this.clock.getDelta();
-        this.strand1.update(delta);
-        this.strand2.update(delta);
+        this.strand1.update(delta, camera, viewportHeight);
+        this.strand2.update(delta, camera, viewportHeight);
+        this.placeCursor();
+    }
+
+    /**
+     * The strands may be changing shape: keeps the cursor on its residues
+     */
+    private placeCursor() {
+        if( this.cursorColumn!==undefined )
+        {
+            const positions = this.cursor.geometry.attributes.position as BufferAttribute;
+            const point = new Vector3();
+
+            this.strand1.pointPosition( this.strand1.pointOfColumn(this.cursorColumn), point ).toArray( positions.array, 0 );
+            this.strand2.pointPosition( this.strand2.pointOfColumn(this.cursorColumn), point ).toArray( positions.array, 3 );
+            positions.needsUpdate = true;
+        }
+    }
+
+    /**
+     * Marks a column of the alignment with a line between its 2 residues, `undefined` to remove it
+     */
+    setCursor( column?:number )
+    {
+        this.cursorColumn = column;
+        this.cursor.visible = column!==undefined;
+        this.placeCursor();
+    }
+
+    /**
+     * World position of the residue of sequence 1 at a column of the alignment
+     */
+    columnPosition( column:number )
+    {
+        return this.strand1.localToWorld( this.strand1.pointPosition( this.strand1.pointOfColumn(column), new Vector3() ) );
+    }
+
+    selectColumns( range?:ColumnRange )
+    {
+        this.strand1.selectColumns(range);
+        this.strand2.selectColumns(range);
+    }
+
+    /**
+     * Draws the annotations of each sequence around its strand: the ones of sequence 1 outside, of sequence 2 inside. Features past the end of their sequence are left out.
+     */
+    setFeatures( features1:Feature[], features2:Feature[] )
+    {
+        this.tracks.forEach( track => {
+            this.remove(track);
+            track.dispose();
+        });
+
+        const track = ( strand:Strand, features:Feature[], radius:number, laneStep:number ) => {
+            const length = ( strand.imA ? this.result.sequence1 : this.result.sequence2 ).sequence.length;
+            const inside = features.filter( feature => feature.segments.some( ({ start }) => start < length ) );
+
+            return new FeatureTrack( inside, position => strand.angleOfPosition(position), strand.stepAng, radius, laneStep, strand.reversed );
+        }
+
+        this.tracks = [ track(this.strand1, features1, 1.3, .05), track(this.strand2, features2, .65, -.05) ];
+        this.tracks.forEach( track => this.add(track) );
+    }
+
+    /**
+     * Where to write the names of the features, in my coordinates
+     */
+    get featureLabels()
+    {
+        return this.tracks.flatMap( track => track.labels );
+    }
+
+    showFeatures( visible:boolean )
+    {
+        this.tracks.forEach( track => track.visible = visible );
     }
 
     displayAs( shape:DisplayShape )
@@ -376,6 +616,77 @@ class Alignment extends Object3D {
         this.strand2.displayAs(shape);
     }  
 
+    /**
+     * What's at a point of one of my strands (as given by a raycast hit)
+     * @returns undefined if the object isn't one of my strands
+     */
+    pick( object:Object3D, point:number ) :ResiduePick | undefined
+    {
+        if( object!==this.strand1 && object!==this.strand2 ) return;
+
+        const mine = object as Strand;
+        const other = mine==this.strand1 ? this.strand2 : this.strand1;
+        const { sequenceIndex, residue, column, state, hit } = mine.residueAt(point);
+
+        // gaps of sequence 1 are residues of sequence 2 against them, and the other way around
+        const gapIn = ( strand:Strand ) => column!==undefined && state==( strand.imA ? Result.B_NOMATCH : Result.A_NOMATCH );
+
+        const name = ( strand:Strand ) => ( strand.imA ? this.result.sequence1 : this.result.sequence2 ).name.replace(/^>/, "") || `sequence ${ strand.imA ? 1 : 2 }`;
+        const position = ( strand:Strand, index:number ) => {
+            const stats = strand.imA ? this.stats.sequence1 : this.stats.sequence2;
+            return stats.strand==StrandSense.Minus ? stats.length - index : index + 1;
+        }
+
+        let partner:ResiduePick["partner"];
+
+        if( column!==undefined )
+        {
+            const partnerPoint = other.pointOfColumn(column);
+            const partnerResidue = other.residueAt(partnerPoint);
+
+            partner = {
+                point: partnerPoint,
+                name: name(other),
+                position: position(other, partnerResidue.sequenceIndex),
+                residue: gapIn(other) ? "-" : partnerResidue.residue,
+            };
+        }
+
+        const track = this.tracks[ mine.imA ? 0 : 1 ];
+        const features = track?.featuresAt( position(mine, sequenceIndex) - 1 ).map( feature => `${ feature.type } ${ feature.name }` );
+
+        return {
+            strand: mine.imA ? 1 : 2,
+            point,
+            name: name(mine),
+            position: position(mine, sequenceIndex),
+            residue: gapIn(mine) ? "-" : residue,
+            state,
+            hit,
+            column,
+            partner,
+            features,
+        };
+    }
+
+    /**
+     * Highlights a picked residue and its partner, `undefined` to clear
+     */
+    select( pick?:ResiduePick )
+    {
+        const point1 = pick?.strand==1 ? pick.point : pick?.partner?.point;
+        const point2 = pick?.strand==2 ? pick.point : pick?.partner?.point;
+
+        this.strand1.highlight(point1);
+        this.strand2.highlight(point2);
+    }
+
+    revealAlignment( from:number )
+    {
+        this.strand1.revealAlignment(from);
+        this.strand2.revealAlignment(from);
+    }
+
     setPointSize( newSize:number )
     {
         this.strand1.setPointSize(newSize)
@@ -385,21 +696,500 @@ class Alignment extends Object3D {
     dispose() {
         this.strand1.dispose();
         this.strand2.dispose();
+        this.cursor.geometry.dispose();
+        this.cursor.material.dispose();
+        this.tracks.forEach( track => track.dispose() );
+    }
+}
+
+
+
+/**
+ * A residue (point) of one of the rings of the multiple alignment, as picked with the pointer
+ */
+type RingPick = {
+    name:string
+    /** 1-based, in the sequence as given (for a gap: of the residue before it) */
+    position:number
+    /** "-" if the point is a gap */
+    residue:string
+    /** 0-based column of the multiple alignment */
+    column:number
+    /** Of the column, see `MultipleAlignmentResult.conservation` */
+    conservation:number
+}
+
+/**
+ * One sequence of a multiple alignment as a ring of points: one per column, gaps included (black, like the gaps of a Strand), coloured by how conserved their column is.
+ */
+class Ring extends Points {
+    private sizes: Float32Array;
+    private baseSizes: Float32Array;
+    private levels: StrandLevels;
+    /** Sizes changed since the levels were last refreshed */
+    private dirty = true;
+    /** 1-based position in the sequence of each point (gaps repeat the residue before them) */
+    private positions: Int32Array;
+
+    /**
+     * @param row the sequence with its gaps
+     * @param radius of the ring, the spring coils around it `coil` away
+     */
+    constructor( readonly sequence:number, readonly row:string, conservation:number[], readonly radius:number, coil:number ) {
+        const count = row.length;
+        const stepAng = ((Math.PI*2)*.9) / count;
+        const pointSize = .05;
+
+        const colors = new Float32Array(count * 3);
+        const sizes = new Float32Array(count);
+        const matched = new Float32Array(count);
+        const positions = new Int32Array(count);
+        const color = new Color();
+        let position = 0;
+
+        for (let i = 0; i < count; i++) {
+            const gap = row[i]=="-";
+            if( !gap ) position++;
+            positions[i] = Math.max(position, 1);
+
+            if( gap ) color.set(0);
+            else scoreColor(conservation[i], color);
+            color.toArray(colors, i * 3);
+
+            sizes[i] = pointSize * (0.6 + Math.random() * 0.5);
+            matched[i] = !gap && conservation[i]==1 ? 1 : 0;
+        }
+
+        // the same shapes as the strands, morphed on the GPU
+        const levels = new StrandLevels( count, 0, stepAng, coil / .2, pointSize, colors, sizes, matched );
+
+        super(levels.levels[0].geometry, levels.material);
+
+        // both shapes are drawn around a circle of radius 1: scaled to mine, the coil keeps its depth
+        this.scale.set(radius, radius, 1);
+
+        this.sizes = sizes;
+        this.baseSizes = sizes.slice();
+        this.levels = levels;
+        this.positions = positions;
+    }
+
+    update( delta:number, camera:Camera, viewportHeight:number ) {
+        if( this.dirty )
+        {
+            // no hits to light up: bins take the colour of their columns
+            this.levels.refresh( new Uint8Array(this.positions.length) );
+            this.dirty = false;
+        }
+
+        this.levels.animate(delta);
+        this.geometry = this.levels.choose(this, camera, viewportHeight);
+    }
+
+    displayAs( shape:DisplayShape )
+    {
+        this.levels.morphTo( shape==DisplayShape.Circle ? 1 : 0 );
+    }
+
+    raycast( raycaster:Raycaster, intersects:Intersection[] )
+    {
+        this.levels.raycast(this, raycaster, intersects);
+    }
+
+    setPointSize( newSize:number )
+    {
+        for (let i = 0; i < this.sizes.length; i++) {
+            this.sizes[i] = this.baseSizes[i] * newSize;
+        }
+        this.dirty = true;
+    }
+
+    /**
+     * 1-based position in the sequence and residue of a point
+     */
+    residueAt( point:number )
+    {
+        return { position: this.positions[point], residue: this.row[point] };
+    }
+
+    dispose() {
+        this.levels.dispose();
     }
 }
 
+/**
+ * A multiple alignment as concentric rings, one per sequence (ordered like the leaves of the guide tree, so related sequences are neighbours),
+ * with the conservation of each column as a bar around them and the guide tree drawn in the opening of the rings.
+ */
+class MultipleAlignmentRings extends Object3D {
+    private rings: Ring[];
+    private bars: LineSegments<BufferGeometry, LineBasicMaterial>;
+    private branches: LineSegments<BufferGeometry, LineBasicMaterial>;
+    private clock = new Clock();
+    /** Name of each sequence, at the end of its ring, in my coordinates */
+    readonly labels: { text:string, position:Vector3 }[];
+
+    constructor( readonly msa:MultipleAlignmentResult ) {
+        super();
+
+        const count = msa.order.length;
+        const columns = msa.rows[0].length;
+        const stepAng = ((Math.PI*2)*.9) / columns;
+        const spacing = Math.min( .1, .55 / (count - 1) );
+        const radiusOf = new Map( msa.order.map( (sequence, k) => [ sequence, 1 - k * spacing ] ) );
+
+        this.rings = msa.order.map( sequence => new Ring(sequence, msa.rows[sequence], msa.conservation, radiusOf.get(sequence)!, spacing * .4) );
+        this.rings.forEach( ring => this.add(ring) );
+
+        const point = ( angle:number, r:number ) => [ Math.cos(angle) * r, Math.sin(angle) * r, 0 ];
+        const color = new Color();
+
+        //
+        // conservation: a bar per column, outside the outer ring
+        //
+        const bars:number[] = [];
+        const barColors:number[] = [];
+
+        msa.conservation.forEach( (conservation, i) => {
+            bars.push( ...point( i * stepAng, 1.08 ), ...point( i * stepAng, 1.08 + .25 * conservation ) );
+            scoreColor(conservation, color);
+            barColors.push( color.r, color.g, color.b, color.r, color.g, color.b );
+        });
+
+        this.bars = new LineSegments( new BufferGeometry(), new LineBasicMaterial({ vertexColors: true, transparent: true, opacity: .8 }) );
+        this.bars.geometry.setAttribute('position', new BufferAttribute( new Float32Array(bars), 3 ));
+        this.bars.geometry.setAttribute('color', new BufferAttribute( new Float32Array(barColors), 3 ));
+        this.add(this.bars);
+
+        //
+        // guide tree: leaves at the start of their ring, the root further back into the opening (by its height)
+        //
+        const branches:number[] = [];
+        const leafAngle = -.03;
+        const angleOf = ( height:number ) => leafAngle - .35 * height / ( msa.tree.height || 1 );
+
+        const arc = ( from:number, to:number, r:number ) => {
+            const steps = Math.max( 1, Math.ceil( Math.abs(to - from) / .02 ) );
+            for (let s = 0; s < steps; s++) {
+                branches.push( ...point( from + (to - from) * s / steps, r ), ...point( from + (to - from) * (s + 1) / steps, r ) );
+            }
+        }
+
+        /** Draws the branches below a node, returns its radius */
+        const drawNode = ( node:GuideTree ) :number => {
+            if( !node.children ) return radiusOf.get(node.sequence!)!;
+
+            const angle = angleOf(node.height);
+            const radii = node.children.map( child => {
+                const r = drawNode(child);
+                arc( angleOf(child.height), angle, r );
+                return r;
+            });
+
+            branches.push( ...point(angle, radii[0]), ...point(angle, radii[1]) );
+            return ( radii[0] + radii[1] ) / 2;
+        }
+
+        drawNode(msa.tree);
+
+        this.branches = new LineSegments( new BufferGeometry(), new LineBasicMaterial({ color: 0xcccccc, transparent: true, opacity: .7 }) );
+        this.branches.geometry.setAttribute('position', new BufferAttribute( new Float32Array(branches), 3 ));
+        this.add(this.branches);
 
+        this.labels = msa.order.map( sequence => ({
+            text: this.nameOf(sequence),
+            position: new Vector3( ...point( Math.PI * 2 * .9 + .02, radiusOf.get(sequence)! ) ),
+        }));
+    }
+
+    private nameOf( sequence:number )
+    {
+        return this.msa.sequences[sequence].name.replace(/^>/, "").split(/\s/)[0] || `sequence ${ sequence + 1 }`;
+    }
+
+    /**
+     * @param viewportHeight in pixels, for the level of detail of the rings
+     */
+    update(camera: Camera, viewportHeight: number) {
+        const delta = this.clock.getDelta();
+        this.rings.forEach( ring => ring.update(delta, camera, viewportHeight) );
+    }
+
+    displayAs( shape:DisplayShape )
+    {
+        this.rings.forEach( ring => ring.displayAs(shape) );
+    }
+
+    setPointSize( newSize:number )
+    {
+        this.rings.forEach( ring => ring.setPointSize(newSize) );
+    }
+
+    /**
+     * What's at a point of one of my rings (as given by a raycast hit)
+     * @returns undefined if the object isn't one of my rings
+     */
+    pick( object:Object3D, point:number ) :RingPick | undefined
+    {
+        const ring = this.rings.find( ring => ring===object );
+        if( !ring ) return;
+
+        return {
+            name: this.nameOf(ring.sequence),
+            ...ring.residueAt(point),
+            column: point,
+            conservation: this.msa.conservation[point],
+        };
+    }
+
+    dispose() {
+        this.rings.forEach( ring => ring.dispose() );
+        this.bars.geometry.dispose();
+        this.bars.material.dispose();
+        this.branches.geometry.dispose();
+        this.branches.material.dispose();
+    }
+}
+
+/**
+ * Opens the browser's file picker and reads the chosen file as text.
+ */
+function pickTextFile( onText:(text:string, fileName:string)=>void, onError?:(error:Error, fileName:string)=>void ) {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.onchange = () => {
+        const file = input.files?.[0];
+        file?.text()
+            .then( text => onText(text, file.name) )
+            .catch( error => onError?.( error as Error, file.name ) );
+    };
+    input.click();
+}
+
+/**
+ * An alignment running in the background
+ */
+export type AlignmentProgress = {
+    /** 0 to 1 */
+    progress:number
+    cancel:()=>void
+}
 
 type DNAAlignmentProps = {
     onStats?:(stats:AlignmentStats)=>void
+    /** The whole result, every hit included (see the "hits" control) */
+    onResult?:(result:AlignmentResult)=>void
+    /** Called while aligning, and with `undefined` once done or cancelled */
+    onProgress?:(progress?:AlignmentProgress)=>void
     fasta1:string 
     fasta2:string
+    /** Initial scoring, it can then be tweaked from the controls panel. Defaults to the Aligner's one for the alphabet, following it until another is picked */
+    scoring?:ScoringScheme
+    /** Initial mode, it can then be changed from the controls panel */
+    mode?:AlignmentMode
+    /** Initial alphabet (undefined: detected), strands searched and number of hits, they can then be changed from the controls panel */
+    alphabet?:Alphabet
+    bothStrands?:boolean
+    maxHits?:number
+    /** Initial seed-and-extend search (local mode), undefined: exact search */
+    heuristic?:Partial<SeedParameters>
+    /** Initial shape of the strands */
+    shape?:DisplayShape
+    /** Initial camera pose */
+    camera?:CameraPose
+    /** Sequences of the "multiple alignment" view (like the records of a file of orthologs). Undefined: the first record of `fasta1` and `fasta2` */
+    sequences?:Sequence[]
+    /** The multiple alignment view was aligned, `undefined` once it's left */
+    onMultipleAlignment?:(msa?:MultipleAlignmentResult)=>void
+    /** Annotations of each sequence (GenBank features, BED, GFF3), drawn around its strand */
+    features1?:Feature[]
+    features2?:Feature[]
+    /** "copy link" was clicked in the controls panel: everything needed to show this again (see `createPermalink`) */
+    onShare?:(view:Permalink)=>void
+    /** A diagonal of the dot plot was clicked: align just those regions (as FASTA) */
+    onRealign?:(fasta1:string, fasta2:string)=>void
+    /** A residue of the strands was clicked, `undefined` once the selection is cleared */
+    onPick?:(pick?:ResiduePick)=>void
+    /** Column of the best alignment to mark on the strands and move the camera to (see `AlignmentPanel`) */
+    cursorColumn?:number
+    /** Columns of the best alignment to highlight on the strands */
+    selectedColumns?:ColumnRange
+    /** The sequences, scoring or a loaded matrix were rejected (see `SequenceParseError`, `AlignmentError`) */
+    onError?:(error:Error, source?:string)=>void
+}
+
+/**
+ * Scores as the step by step table shows them
+ */
+const formatCandidate = ( score:number ) => Number.isFinite(score) ? String( Math.round(score * 100) / 100 ) : score < 0 ? "-∞" : "∞";
+
+/**
+ * Replays a `FillRecording`: the DP table filling cell by cell, then the traceback building the alignment on the strands, with play/pause/step controls.
+ */
+function FillReplay({ recording }:{ recording:FillRecording }) {
+    const { steps, traceback, W } = recording;
+    const total = steps.length + traceback.length;
+
+    const [step, setStep] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [hovered, setHovered] = useState<number>();
+    const [replaying, setReplaying] = useState(recording);
+    const elapsed = useRef(0);
+
+    // a new recording starts from the beginning
+    if( replaying!==recording )
+    {
+        setReplaying(recording);
+        setStep(0);
+        setPlaying(false);
+        setHovered(undefined);
+    }
+
+    const { speed } = useControls("step by step", {
+        speed: { value: 8, min: 1, max: 60, step: 1, label: "cells / second" },
+        "play / pause": button(() => {
+            setStep( step => step>=total ? 0 : step );
+            setPlaying( playing => !playing );
+        }),
+        step: button(() => {
+            setPlaying(false);
+            setStep( step => Math.min(step + 1, total) );
+        }),
+        restart: button(() => {
+            setPlaying(false);
+            setStep(0);
+        }),
+    }, [total]);
+
+    const table = useMemo(() => new FillTableView(recording), [recording]);
+    // nothing to trace back if no alignment was found
+    const alignment = useMemo(() => {
+        if( recording.result.outcome==AlignmentOutcome.NoSignificantAlignment ) return;
+
+        const alignment = new Alignment(recording.result);
+        alignment.scale.multiplyScalar(1.2);
+        alignment.position.x = 2.2;
+        return alignment;
+    }, [recording]);
+
+    useEffect(() => () => table.dispose(), [table]);
+    useEffect(() => () => alignment?.dispose(), [alignment]);
+
+    const filled = Math.min(step, steps.length);
+    const traced = Math.max(0, step - steps.length);
+
+    useEffect(() => {
+        table.show(filled, traced);
+        alignment?.revealAlignment( recording.result.alignment.length - traced );
+    }, [table, alignment, recording, filled, traced]);
+
+    useFrame(({ camera, size }, delta) => {
+        alignment?.update(camera, size.height);
+        if( !playing ) return;
+
+        if( step>=total )
+        {
+            setPlaying(false);
+            return;
+        }
+
+        elapsed.current += delta * speed;
+        if( elapsed.current < 1 ) return;
+
+        const advance = Math.floor(elapsed.current);
+        elapsed.current -= advance;
+        setStep( step => Math.min(step + advance, total) );
+    });
+
+    // the cell to explain: the one under the pointer, else the last one filled or traced back
+    const focus = hovered ?? ( traced ? traceback[traced - 1] : filled ? steps[filled - 1].x + steps[filled - 1].y * W : undefined );
+    const focusCell = focus===undefined ? undefined : table.cellAt(focus);
+    const focusStep = focusCell && focusCell.x>0 && focusCell.y>0 ? (focusCell.x - 1) + (focusCell.y - 1) * (W - 1) : -1;
+    const explained = focusStep>=0 && focusStep<filled ? steps[focusStep] : undefined;
+
+    const sequence1 = recording.result.sequence1.sequence;
+    const sequence2 = recording.result.sequence2.sequence;
+
+    return <>
+        <primitive 
+            object={table} 
+            position-x={-2.2}
+            onPointerMove={(e:ThreeEvent<PointerEvent>) => e.instanceId!==undefined && setHovered(e.instanceId)}
+            onPointerOut={() => setHovered(undefined)}
+        >
+            {[ ...sequence1 ].map( (residue, i) => <Html key={`1-${ i }`} position={table.cellPosition(i + 1, -1)} center className="vt323-regular dp-label">{residue}</Html> )}
+            {[ ...sequence2 ].map( (residue, i) => <Html key={`2-${ i }`} position={table.cellPosition(-1, i + 1)} center className="vt323-regular dp-label">{residue}</Html> )}
+
+            <Html position={table.cellPosition(0, -2.5)} className="vt323-regular dp-label">
+                {traced ? `traceback ${ traced }/${ traceback.length }` : `fill ${ filled }/${ steps.length }`}
+            </Html>
+
+            {explained && <Html position={table.cellPosition(explained.x, explained.y)} className="vt323-regular score-cell">
+                {sequence1[explained.x - 1]} <small>{explained.x}</small> / {sequence2[explained.y - 1]} <small>{explained.y}</small><br/>
+                ↖ {formatCandidate(explained.diagonal)} &nbsp;← {formatCandidate(explained.left)} &nbsp;↑ {formatCandidate(explained.top)}<br/>
+                = <strong>{formatCandidate(explained.score)}</strong> {explained.reset && "(reset to 0)"}<br/>
+                <small>pointer {explained.pointer}: {describePointer(explained.pointer)}</small>
+            </Html>}
+        </primitive>
+
+        {alignment && <primitive object={alignment} />}
+    </>
+}
+
+/**
+ * The first record of a text cut to `start`..`end` (0-based, end excluded), named after the region. Qualities (FASTQ) are cut too.
+ */
+/**
+ * The values of the scoring controls for a preset
+ */
+function presetControls( name:ScoringPresetName ) {
+    const preset:ScoringScheme = ScoringPresets[name];
+
+    return { 
+        match: preset.match,
+        mismatch: preset.mismatch,
+        gap: preset.gap,
+        affine: preset.gapExtend!==undefined, 
+        gapExtend: preset.gapExtend ?? preset.gap,
+        matrix: preset.matrix?.name ?? "none",
+    };
 }
 
-export function DNAAlignmentVisualizer2({ fasta1, fasta2, onStats }:DNAAlignmentProps) {
+function fastaRegion( fasta:string, start:number, end:number ) {
+    const [ record ] = parseSequences(fasta);
+    const sequence = record?.sequence.slice(start, end) ?? "";
+    const name = `${ record?.name || ">sequence" } region ${ start + 1 }-${ start + sequence.length }`;
+
+    return formatRecord({ name, sequence, quality: record?.quality?.slice(start, end) });
+}
+
+export function DNAAlignmentVisualizer2({ fasta1, fasta2, sequences, onMultipleAlignment, onStats, onResult, onProgress, onRealign, onPick, onError, onShare, cursorColumn, selectedColumns, features1, features2, scoring, mode: initialMode = AlignmentMode.Local, alphabet: initialAlphabet, bothStrands: initialBothStrands = true, maxHits: initialMaxHits = 1, heuristic: initialHeuristic, shape: initialShape = DisplayShape.Spring, camera }:DNAAlignmentProps) {
 
     const [mc, setMc] = useState<Alignment>();
-    const { pointSize } = useControls( {
+    const [terrain, setTerrain] = useState<ScoreTerrain>();
+    const [hoveredCell, setHoveredCell] = useState<{ cell:ScoreCell, point:Vector3 }>();
+    const [hoveredResidue, setHoveredResidue] = useState<{ pick:ResiduePick, point:Vector3 }>();
+    /** Shape new alignments start with: the last one picked */
+    const shape = useRef(initialShape);
+    /** What "copy link" shares, refreshed every render (the button is created once) */
+    const shareView = useRef<()=>Permalink>(undefined);
+    /** The latest callbacks of the parent, for runs (in a worker) that outlive the render that started them */
+    const handlers = useRef({ onStats, onResult, onProgress, onPick, onError, onMultipleAlignment });
+
+    useEffect(() => {
+        handlers.current = { onStats, onResult, onProgress, onPick, onError, onMultipleAlignment };
+    });
+
+    const [msaView, setMsaView] = useState<MultipleAlignmentRings>();
+    const [hoveredRing, setHoveredRing] = useState<{ pick:RingPick, point:Vector3 }>();
+
+    const displayAs = ( displayShape:DisplayShape ) => {
+        shape.current = displayShape;
+        mc?.displayAs(displayShape);
+        msaView?.displayAs(displayShape);
+    }
+
+    const { pointSize, view, features: showFeatures } = useControls( {
  
         pointSize:{
             value: 2,
@@ -407,40 +1197,506 @@ export function DNAAlignmentVisualizer2({ fasta1, fasta2, onStats }:DNAAlignment
             max: 5,
             step: .1,
         },
+
+        features: true,
         
         "show as": folder({
-            spring: button(() => mc?.displayAs(DisplayShape.Spring)),
-            circle: button(() => mc?.displayAs(DisplayShape.Circle)), 
-        }) 
+            spring: button(() => displayAs(DisplayShape.Spring)),
+            circle: button(() => displayAs(DisplayShape.Circle)), 
+        }),
+
+        "copy link": button(() => onShare?.( shareView.current!() )),
+
+        view: { value: View.Strands, options: Object.values(View) },
      
-    }, [mc])
+    }, [mc, msaView])
+
+    const { wordSize, mismatches } = useControls("dot plot", {
+        wordSize: { value: 11, min: 2, max: 32, step: 1, label: "word size" },
+        mismatches: { value: 0, min: 0, max: 3, step: 1 },
+    }, { render: get => get("view")==View.DotPlot });
+
+    const { mode, alphabet: alphabetName, bothStrands, maxHits, shuffles, heuristic, wordSize: seedWordSize, bandWidth } = useControls("alignment", {
+        alphabet: {
+            value: initialAlphabet===undefined ? "auto" : initialAlphabet==Alphabet.Protein ? "protein" : "nucleotide",
+            options: [ "auto", "nucleotide", "protein" ],
+        },
+        bothStrands: { value: initialBothStrands, label: "both strands" },
+        mode: {
+            value: initialMode,
+            options: {
+                "local (Smith–Waterman)": AlignmentMode.Local,
+                "global (Needleman–Wunsch)": AlignmentMode.Global,
+                "glocal: 2 inside 1": AlignmentMode.GlocalIn1,
+                "glocal: 1 inside 2": AlignmentMode.GlocalIn2,
+                "overlap": AlignmentMode.Overlap,
+            }
+        },
+        maxHits: { value: initialMaxHits, min: 1, max: 10, step: 1, label: "hits", render: get => get("alignment.mode")==AlignmentMode.Local },
+        shuffles: { value: 0, min: 0, max: 200, step: 10, label: "shuffles (p-value)", render: get => get("alignment.mode")==AlignmentMode.Local && !get("alignment.heuristic") },
+        heuristic: { value: initialHeuristic!==undefined, label: "seed-and-extend", render: get => get("alignment.mode")==AlignmentMode.Local },
+        wordSize: { value: initialHeuristic?.wordSize ?? 0, min: 0, max: 15, step: 1, label: "word (0: default)", render: get => get("alignment.mode")==AlignmentMode.Local && get("alignment.heuristic") },
+        bandWidth: { value: initialHeuristic?.bandWidth ?? 32, min: 4, max: 256, step: 4, label: "band", render: get => get("alignment.mode")==AlignmentMode.Local && get("alignment.heuristic") },
+    });
+
+    /** The scoring the Aligner defaults to for what it takes the sequences for */
+    const alphabetPreset = useMemo<ScoringPresetName>(() => {
+        if( alphabetName!="auto" ) return alphabetName=="protein" ? "blastp" : "default";
+
+        try
+        {
+            const detected = detectAlphabet( ...[ fasta1, fasta2 ].map( fasta => parseSequences(fasta)[0]?.sequence ?? "" ) );
+            return detected==Alphabet.Protein ? "blastp" : "default";
+        }
+        catch
+        {
+            return "default"; // the aligner reports it
+        }
+
+    }, [alphabetName, fasta1, fasta2]);
+
+    /** Without a `scoring` given, the preset followed until the user picks another one or tweaks it */
+    const autoPreset = useRef(scoring ? undefined : alphabetPreset);
+    const initialScoring:ScoringScheme = scoring ?? ScoringPresets[alphabetPreset];
+
+    // a matrix loaded by whoever shared the link comes with it
+    const [matrices, setMatrices] = useState(() => initialScoring.matrix && !( initialScoring.matrix.name in SubstitutionMatrices ) ? { ...SubstitutionMatrices, [initialScoring.matrix.name]: initialScoring.matrix } : SubstitutionMatrices);
+    const loadedMatrix = useRef<string>(undefined);
+
+    const [{ preset, match, mismatch, gap, affine, gapExtend, matrix: matrixName }, setScoring] = useControls("scoring", () => ({
+        preset: {
+            value: findScoringPreset(initialScoring) ?? "custom",
+            options: [ ...Object.keys(ScoringPresets), "custom" ],
+        },
+        match: { value: initialScoring.match, step: .5 },
+        mismatch: { value: initialScoring.mismatch, step: .5 },
+        gap: { value: initialScoring.gap, min: 0, step: .5, label: "gap (open)" },
+        affine: initialScoring.gapExtend!==undefined,
+        gapExtend: { value: initialScoring.gapExtend ?? initialScoring.gap, min: 0, step: .5, render: get => get("scoring.affine") },
+        matrix: {
+            value: initialScoring.matrix?.name ?? "none",
+            options: [ "none", ...Object.keys(matrices) ],
+        },
+        "load matrix": button(() => pickTextFile( (text, fileName) => {
+            try 
+            {
+                const loaded = parseSubstitutionMatrix(text, fileName);
+                loadedMatrix.current = loaded.name;
+                setMatrices( all => ({ ...all, [loaded.name]: loaded }) );
+            }
+            catch( error )
+            {
+                onError?.( error as Error, fileName );
+            }
+        }, onError )),
+    }), [matrices]);
+
+    useEffect(()=>{
+
+        // select the matrix that was just loaded, now that it is one of the options...
+        if( loadedMatrix.current )
+        {
+            setScoring({ matrix: loadedMatrix.current });
+            loadedMatrix.current = undefined;
+        }
+
+    }, [matrices, setScoring])
+
+    useEffect(()=>{
+
+        if( preset in ScoringPresets ) setScoring( presetControls(preset as ScoringPresetName) );
+
+    }, [preset, setScoring])
+
+    useEffect(()=>{
+
+        if( !autoPreset.current ) return;
+
+        const current = findScoringPreset({ match, mismatch, gap, gapExtend: affine? gapExtend : undefined, matrix: matrices[matrixName] });
+
+        // picked or tweaked by the user: theirs from now on...
+        if( preset!=autoPreset.current || current!=preset )
+        {
+            autoPreset.current = undefined;
+        }
+        else if( preset!=alphabetPreset )
+        {
+            autoPreset.current = alphabetPreset;
+            setScoring({ preset: alphabetPreset, ...presetControls(alphabetPreset) });
+        }
+
+    }, [alphabetPreset, preset, match, mismatch, gap, affine, gapExtend, matrixName, matrices, setScoring])
+
+    const matrix = matrices[matrixName];
+    const alphabet = alphabetName=="auto" ? undefined : alphabetName=="protein" ? Alphabet.Protein : Alphabet.Nucleotide;
+
+    /** The terrain is drawn out of a sample of the score matrix (`scorePreview`), only taken while its view is on */
+    const showsTerrain = view==View.ScoreMatrix;
+    const terrainShown = useRef(showsTerrain);
+    /** The last alignment started sampled the matrix */
+    const previewed = useRef(false);
+    /** Bumped to realign when the view is turned on over a result without a sample */
+    const [previewRuns, setPreviewRuns] = useState(0);
 
     useEffect(() => {   
- 
-        const alignment = new Alignment(fasta1, fasta2)
 
-        alignment.scale.multiplyScalar(2)
-        setMc(alignment);
-        onStats?.( alignment.stats );
+        const controller = new AbortController();
+        previewed.current = terrainShown.current;
+        const cancel = () => {
+            controller.abort();
+            handlers.current.onProgress?.(undefined);
+        }
+
+        handlers.current.onProgress?.({ progress: 0, cancel });
+
+        alignAsync(fasta1, fasta2, { 
+            scoring: { match, mismatch, gap, gapExtend: affine? gapExtend : undefined, matrix },
+            mode,
+            alphabet,
+            bothStrands,
+            maxHits,
+            shuffles,
+            // word 0: the one of the alphabet
+            heuristic: heuristic ? { wordSize: seedWordSize || undefined, bandWidth } : undefined,
+            scorePreview: previewed.current ? 192 : undefined,
+        }, {
+            signal: controller.signal,
+            onProgress: progress => handlers.current.onProgress?.({ progress, cancel }),
+        })
+        .then( result => {
+            // the strands are drawn around an alignment: without one, only the stats and the score matrix are left
+            const alignment = result.outcome==AlignmentOutcome.Aligned ? new Alignment(result) : undefined
+
+            if( alignment )
+            {
+                alignment.scale.multiplyScalar(2)
+                alignment.position.x = Math.random()
+                alignment.displayAs(shape.current)
+            }
+
+            setMc(alignment);
+            setTerrain( result.scoreMatrix && new ScoreTerrain(result) );
+            setHoveredCell(undefined);
+            setHoveredResidue(undefined);
+            handlers.current.onPick?.(undefined);
+            handlers.current.onStats?.( result.stats );
+            handlers.current.onResult?.( result );
+            handlers.current.onProgress?.(undefined);
+        })
+        .catch( error => {
+            if( controller.signal.aborted ) return; // cancelled, or a newer run replaced this one...
+            handlers.current.onProgress?.(undefined);
+            handlers.current.onError?.( error as Error );
+        });
+
+        // the inputs changed before we were done...
+        return () => controller.abort();
+
+    }, [fasta1, fasta2, match, mismatch, gap, affine, gapExtend, matrix, mode, alphabet, bothStrands, maxHits, shuffles, heuristic, seedWordSize, bandWidth, previewRuns]);
+
+    useEffect(() => {
+        terrainShown.current = showsTerrain;
+        if( showsTerrain && !previewed.current ) setPreviewRuns( runs => runs + 1 );
+    }, [showsTerrain]);
+
+    //
+    // dot plot of the whole sequences, with the hits of the current result on top
+    //
+    const [dotPlot, setDotPlot] = useState<DotPlot>();
+
+    useEffect(() => {
+        if( view!=View.DotPlot ) return;
+
+        let sequence1:string, sequence2:string;
+
+        try
+        {
+            sequence1 = parseSequences(fasta1)[0]?.sequence ?? "";
+            sequence2 = parseSequences(fasta2)[0]?.sequence ?? "";
+        }
+        catch
+        {
+            return; // the aligner reports it
+        }
+
+        const nucleotides = ( alphabet ?? detectAlphabet(sequence1, sequence2) )==Alphabet.Nucleotide;
+
+        const controller = new AbortController();
+        const cancel = () => {
+            controller.abort();
+            handlers.current.onProgress?.(undefined);
+        }
+
+        handlers.current.onProgress?.({ progress: 0, cancel });
+
+        computeDotPlotAsync(sequence1, sequence2, { wordSize, mismatches, reverseComplement: nucleotides && bothStrands }, {
+            signal: controller.signal,
+            onProgress: progress => handlers.current.onProgress?.({ progress, cancel }),
+        })
+        .then( plot => {
+            setDotPlot(plot);
+            handlers.current.onProgress?.(undefined);
+        })
+        .catch( error => {
+            if( controller.signal.aborted ) return;
+            setDotPlot(undefined);
+            handlers.current.onProgress?.(undefined);
+            handlers.current.onError?.( error as Error );
+        });
+
+        return () => {
+            if( !controller.signal.aborted ) cancel();
+        }
+
+    }, [view, fasta1, fasta2, wordSize, mismatches, alphabet, bothStrands]);
+
+    const dotPlotView = useMemo(() => dotPlot && new DotPlotView(dotPlot, mc?.result), [dotPlot, mc]);
+
+    const realignDiagonal = (e:ThreeEvent<MouseEvent>) => {
+        const diagonal = e.uv && dotPlotView?.diagonalAt(e.uv);
+        if( !diagonal ) return;
+
+        e.stopPropagation();
+        onRealign?.( fastaRegion(fasta1, diagonal.start1, diagonal.end1), fastaRegion(fasta2, diagonal.start2, diagonal.end2) );
+    }
+
+    //
+    // step by step: small inputs only, the message says why otherwise
+    //
+    const recording = useMemo(() => {
+        if( view!=View.StepByStep ) return;
+
+        try
+        {
+            return recordFill(fasta1, fasta2, { scoring: { match, mismatch, gap, gapExtend: affine? gapExtend : undefined, matrix }, mode, alphabet });
+        }
+        catch( error )
+        {
+            return (error as Error).message;
+        }
+
+    }, [view, fasta1, fasta2, match, mismatch, gap, affine, gapExtend, matrix, mode, alphabet]);
+
+    //
+    // multiple alignment of the sequences given (or of both subjects), only while it's shown: it takes an alignment per pair
+    //
+    useEffect(() => {
+        if( view!=View.MultipleAlignment ) return;
+
+        let members:Sequence[];
+
+        try
+        {
+            members = sequences ?? [ fasta1, fasta2 ].flatMap( fasta => parseSequences(fasta).slice(0, 1) );
+        }
+        catch
+        {
+            return; // the aligner reports it
+        }
 
-        alignment.position.x = Math.random()
+        const controller = new AbortController();
+        const cancel = () => {
+            controller.abort();
+            handlers.current.onProgress?.(undefined);
+        }
 
-        return () => { 
-            alignment.dispose()
+        handlers.current.onProgress?.({ progress: 0, cancel });
+
+        alignMultipleAsync(members, {
+            scoring: { match, mismatch, gap, gapExtend: affine? gapExtend : undefined, matrix },
+            alphabet,
+        }, {
+            signal: controller.signal,
+            onProgress: progress => handlers.current.onProgress?.({ progress, cancel }),
+        })
+        .then( msa => {
+            const rings = new MultipleAlignmentRings(msa);
+            rings.scale.multiplyScalar(2);
+            rings.displayAs(shape.current);
+
+            setMsaView(rings);
+            setHoveredRing(undefined);
+            handlers.current.onMultipleAlignment?.(msa);
+            handlers.current.onProgress?.(undefined);
+        })
+        .catch( error => {
+            if( controller.signal.aborted ) return;
+            handlers.current.onProgress?.(undefined);
+            handlers.current.onError?.( error as Error );
+        });
+
+        return () => {
+            if( !controller.signal.aborted ) cancel();
+            handlers.current.onMultipleAlignment?.(undefined);
         }
 
-    }, [fasta1, fasta2]);
+    }, [view, sequences, fasta1, fasta2, match, mismatch, gap, affine, gapExtend, matrix, alphabet]);
+
+    useEffect(() => () => mc?.dispose(), [mc]);
+    useEffect(() => () => msaView?.dispose(), [msaView]);
+    useEffect(() => () => dotPlotView?.dispose(), [dotPlotView]);
+    useEffect(() => () => terrain?.dispose(), [terrain]);
 
     useEffect(()=>{
 
         mc?.setPointSize(pointSize);
+        msaView?.setPointSize(pointSize);
+
+    },[ mc, msaView, pointSize])
+
+    useFrame(({ camera, size }) => {
+        // close-ups of long strands (residues millionths apart) need the near plane closer than usual
+        const near = MathUtils.clamp( ( cameraControls.current?.distance ?? 10 ) / 100, 1e-6, .1 );
+        if( camera.near!=near )
+        {
+            camera.near = near;
+            camera.updateProjectionMatrix();
+        }
+
+        mc?.update(camera, size.height);
+        msaView?.update(camera, size.height);
+    })
+
+    //
+    // annotations around the strands
+    //
+    const [featureLabels, setFeatureLabels] = useState<FeatureLabel[]>([]);
 
-    },[ mc, pointSize])
+    useEffect(() => {
+        mc?.setFeatures( features1 ?? [], features2 ?? [] );
+        setFeatureLabels( mc?.featureLabels ?? [] );
+    }, [mc, features1, features2]);
 
-    useFrame(() => mc?.update())
+    useEffect(() => mc?.showFeatures(showFeatures), [mc, showFeatures, featureLabels]);
+
+    //
+    // picking residues of the strands: points are small, so the threshold is too
+    //
+    const raycaster = useThree( state => state.raycaster );
+
+    useEffect(() => {
+        raycaster.params.Points.threshold = .03;
+    }, [raycaster]);
+
+    /**
+     * The point closest to the ray (the first intersection is the closest to the camera, not to the pointer)
+     */
+    const closestPoint = (e:ThreeEvent<PointerEvent | MouseEvent>) => {
+        e.stopPropagation();
+
+        return e.intersections
+                .filter( hit => hit.index!==undefined && hit.distanceToRay!==undefined )
+                .sort( (a, b) => a.distanceToRay! - b.distanceToRay! )[0];
+    }
+
+    const pickResidue = (e:ThreeEvent<PointerEvent | MouseEvent>) => {
+        const closest = closestPoint(e);
+        const pick = closest && mc?.pick(closest.object, closest.index!);
+        return pick && { pick, point: closest.point.clone() };
+    }
+
+    const pickRing = (e:ThreeEvent<PointerEvent>) => {
+        const closest = closestPoint(e);
+        const pick = closest && msaView?.pick(closest.object, closest.index!);
+        return pick && { pick, point: closest.point.clone() };
+    }
+
+    //
+    // the text panel: a cursor on the strands, with the camera following it, and the selected columns
+    //
+    const cameraControls = useRef<CameraControls>(null);
+
+    useEffect(() => {
+        if( camera ) cameraControls.current?.setLookAt( ...camera.position, ...camera.target, false );
+    }, [camera]);
+
+    useEffect(() => {
+        shareView.current = () => ({
+            fasta1,
+            fasta2,
+            scoring: { match, mismatch, gap, gapExtend: affine? gapExtend : undefined, matrix },
+            mode,
+            alphabet,
+            bothStrands,
+            maxHits,
+            heuristic: heuristic && mode==AlignmentMode.Local ? { wordSize: seedWordSize || undefined, bandWidth } : undefined,
+            shape: shape.current,
+            features1,
+            features2,
+            camera: cameraControls.current ? {
+                position: cameraControls.current.getPosition(new Vector3()).toArray(),
+                target: cameraControls.current.getTarget(new Vector3()).toArray(),
+            } : undefined,
+        });
+    });
+
+    useEffect(() => {
+        const column = mc && cursorColumn!==undefined && cursorColumn < mc.result.alignment.length ? cursorColumn : undefined;
+        mc?.setCursor(column);
+
+        if( !mc || column===undefined ) return;
+
+        const target = mc.columnPosition(column);
+        cameraControls.current?.setLookAt( target.x * 1.5, target.y * 1.5, target.z + 2.5, target.x, target.y, target.z, true );
+
+    }, [mc, cursorColumn]);
+
+    useEffect(() => mc?.selectColumns(selectedColumns), [mc, selectedColumns]);
+
+    const selectResidue = (pick?:ResiduePick) => {
+        mc?.select(pick);
+        onPick?.(pick);
+    }
 
     return <>
-        {mc && <primitive object={mc} />}
-        <CameraControls />
+        {mc && view==View.Strands && <primitive 
+            object={mc} 
+            onPointerMove={(e:ThreeEvent<PointerEvent>) => setHoveredResidue( pickResidue(e) )}
+            onPointerOut={() => setHoveredResidue(undefined)}
+            onClick={(e:ThreeEvent<MouseEvent>) => selectResidue( pickResidue(e)?.pick )}
+            onPointerMissed={() => selectResidue(undefined)}
+        >
+            {showFeatures && featureLabels.map( (label, i) => <Html key={i} position={label.position} center className="vt323-regular feature-label">{label.text}</Html> )}
+        </primitive>}
+
+        {hoveredResidue && view==View.Strands && <Html position={hoveredResidue.point} className="vt323-regular score-cell">
+            {hoveredResidue.pick.name} <small>{hoveredResidue.pick.position}</small> <strong>{hoveredResidue.pick.residue}</strong><br/>
+            {hoveredResidue.pick.state===undefined ? "not aligned" : resultLabels[hoveredResidue.pick.state]}{!!hoveredResidue.pick.hit && ` (hit ${ hoveredResidue.pick.hit + 1 })`}
+            {hoveredResidue.pick.partner && <><br/>with {hoveredResidue.pick.partner.name} <small>{hoveredResidue.pick.partner.position}</small> <strong>{hoveredResidue.pick.partner.residue}</strong></>}
+            {!!hoveredResidue.pick.features?.length && <><br/>in {hoveredResidue.pick.features.join(", ")}</>}
+        </Html>}
+
+        {dotPlotView && view==View.DotPlot && <primitive object={dotPlotView} onClick={realignDiagonal} />}
+
+        {msaView && view==View.MultipleAlignment && <primitive 
+            object={msaView} 
+            onPointerMove={(e:ThreeEvent<PointerEvent>) => setHoveredRing( pickRing(e) )}
+            onPointerOut={() => setHoveredRing(undefined)}
+        >
+            {msaView.labels.map( (label, i) => <Html key={i} position={label.position} className="vt323-regular msa-label">{label.text}</Html> )}
+        </primitive>}
+
+        {hoveredRing && view==View.MultipleAlignment && <Html position={hoveredRing.point} className="vt323-regular score-cell">
+            {hoveredRing.pick.name} <small>{hoveredRing.pick.position}</small> <strong>{hoveredRing.pick.residue}</strong><br/>
+            column <strong>{hoveredRing.pick.column + 1}</strong>: {(hoveredRing.pick.conservation * 100).toFixed(0)}% conserved
+        </Html>}
+
+        {typeof recording=="object" && <FillReplay recording={recording} />}
+
+        {typeof recording=="string" && <Html center className="vt323-regular score-cell">{recording}</Html>}
+
+        {terrain && view==View.ScoreMatrix && <primitive 
+            object={terrain} 
+            rotation-x={-Math.PI / 4}
+            onPointerMove={(e:ThreeEvent<PointerEvent>) => e.uv && setHoveredCell({ cell: terrain.cellAt(e.uv), point: e.point.clone() })}
+            onPointerOut={() => setHoveredCell(undefined)}
+        />}
+
+        {hoveredCell && view==View.ScoreMatrix && <Html position={hoveredCell.point} className="vt323-regular score-cell">
+            score <strong>{hoveredCell.cell.score}</strong><br/>
+            {hoveredCell.cell.residue1} <small>{hoveredCell.cell.position1}</small> / {hoveredCell.cell.residue2} <small>{hoveredCell.cell.position2}</small>
+        </Html>}
+
+        <CameraControls ref={cameraControls} />
     </>
 }
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { AlignmentError } from "./Aligner";
+import { encodeResidues, reverseComplement } from "./Alphabet";
+
+export type DotPlotOptions = {
+    /** Residues per word (window). Defaults to 11 */
+    wordSize?:number
+    /**
+     * Mismatches a word may have and still be a dot. Defaults to 0.
+     * Words are found through intact blocks of at least 4 residues: with more mismatches than blocks, some of them are missed
+     */
+    mismatches?:number
+    /** Also plot sequence 1 against the reverse complement of sequence 2 (inversions). Defaults to true */
+    reverseComplement?:boolean
+    /** Pixels of the longest side, at most. Defaults to 1024 */
+    resolution?:number
+    /** Words compared at most, estimated before comparing any: above it, the plot is refused with an `AlignmentError`. Defaults to 100 million */
+    maxCandidates?:number
+    /** Fraction (0 to 1) of the work done */
+    onProgress?:(progress:number)=>void
+}
+
+/**
+ * Where words of sequence 1 show up in sequence 2, as a raster: sequence 1 across, sequence 2 down.
+ * Each pixel covers `scale` by `scale` residues, so diagonals stay at 45°.
+ */
+export type DotPlot = {
+    width:number
+    height:number
+    scale:number
+    wordSize:number
+    mismatches:number
+    /** 1 where a word matches on the same strand (`width * height`, row by row) */
+    forward:Uint8Array
+    /** 1 where a word matches the reverse complement of sequence 2, plotted in the coordinates of sequence 2 as given (inversions run bottom-left to top-right) */
+    reverse?:Uint8Array
+}
+
+/**
+ * Rolling hash of every `size` long word of the residues
+ */
+function wordHashes( codes:Uint8Array, size:number ) {
+    const count = Math.max( 0, codes.length - size + 1 );
+    const hashes = new Uint32Array(count);
+    const base = 131;
+
+    let power = 1; // base^(size-1)
+    for (let i = 1; i < size; i++) power = Math.imul(power, base);
+
+    let hash = 0;
+    for (let i = 0; i < codes.length; i++) {
+        if( i >= size ) hash = ( hash - Math.imul(codes[i - size], power) ) | 0;
+        hash = ( Math.imul(hash, base) + codes[i] ) | 0;
+        if( i >= size - 1 ) hashes[i - size + 1] = hash >>> 0;
+    }
+
+    return hashes;
+}
+
+/**
+ * Shortest block looked up: shorter ones are everywhere (a block of 2 is about every 16th position of DNA) and so are the words to compare
+ */
+const minSeedSize = 4;
+
+/**
+ * Calls `onDot` with the start of every word of `a` that matches a word of `b` with at most `mismatches` mismatches.
+ *
+ * A word with `t` mismatches has at least one of its `t+1` first blocks of `wordSize/(t+1)` residues intact (pigeonhole),
+ * so the blocks (seeds) are found with a hash table of `a` and only the words around them are compared.
+ * @throws {AlignmentError} if there are more than `maxCandidates` words around the blocks found
+ */
+function findWords( a:Uint8Array, b:Uint8Array, wordSize:number, mismatches:number, maxCandidates:number, onDot:(x:number, y:number)=>void, onProgress:(progress:number)=>void ) {
+    if( a.length < wordSize || b.length < wordSize ) return;
+
+    const seedSize = Math.min( wordSize, Math.max( minSeedSize, Math.floor( wordSize / (mismatches + 1) ) ) );
+    const blocks = Math.min( mismatches + 1, Math.floor( wordSize / seedSize ) );
+    const hashesA = wordHashes(a, seedSize);
+    const hashesB = wordHashes(b, seedSize);
+
+    // chained hash table of the seeds of a
+    const bits = Math.max( 4, Math.ceil( Math.log2( hashesA.length * 2 ) ) );
+    const mask = (1 << bits) - 1;
+    const heads = new Int32Array(1 << bits).fill(-1);
+    const counts = new Uint32Array(1 << bits);
+    const next = new Int32Array(hashesA.length);
+
+    for (let i = 0; i < hashesA.length; i++) {
+        const slot = hashesA[i] & mask;
+        next[i] = heads[slot];
+        heads[slot] = i;
+        counts[slot]++;
+    }
+
+    // every seed of b sharing a slot with seeds of a, as if all were hits
+    let candidates = 0;
+    for (let j = 0; j < hashesB.length; j++) candidates += counts[ hashesB[j] & mask ] * blocks;
+
+    if( candidates > maxCandidates ) 
+    {
+        throw new AlignmentError(`The dot plot would compare about ${ Math.round(candidates / 1e6) } million words (${ maxCandidates / 1e6 } million at most): use longer words or fewer mismatches`);
+    }
+
+    const countMismatches = ( x:number, y:number, length:number, limit:number ) => {
+        let count = 0;
+        for (let i = 0; i < length && count <= limit; i++) {
+            if( a[x + i] != b[y + i] ) count++;
+        }
+        return count;
+    }
+
+    for (let j = 0; j < hashesB.length; j++) {
+        if( j % 4096 == 0 ) onProgress( j / hashesB.length );
+
+        for (let i = heads[ hashesB[j] & mask ]; i >= 0; i = next[i]) {
+
+            if( hashesA[i] != hashesB[j] || countMismatches(i, j, seedSize, 0) ) continue;
+
+            // the seed may be any of the first blocks of the word...
+            for (let block = 0; block < blocks; block++) {
+                const x = i - block * seedSize;
+                const y = j - block * seedSize;
+
+                if( x < 0 || y < 0 || x + wordSize > a.length || y + wordSize > b.length ) continue;
+                if( countMismatches(x, y, wordSize, mismatches) <= mismatches ) onDot(x, y);
+            }
+        }
+    }
+}
+
+/**
+ * Dot plot of 2 sequences (case insensitive): a dot wherever a word of sequence 1 matches a word of sequence 2.
+ * @link https://en.wikipedia.org/wiki/Dot_plot_(bioinformatics)
+ * @throws {AlignmentError} if it takes more than `maxCandidates` words compared
+ */
+export function computeDotPlot( sequence1:string, sequence2:string, options:DotPlotOptions = {} ) :DotPlot {
+    const wordSize = Math.max( 1, options.wordSize ?? 11 );
+    const mismatches = Math.min( Math.max( 0, options.mismatches ?? 0 ), wordSize - 1 );
+    const resolution = options.resolution ?? 1024;
+    const maxCandidates = options.maxCandidates ?? 1e8;
+    const passes = ( options.reverseComplement ?? true ) ? 2 : 1;
+    const progressFrom = ( pass:number ) => (progress:number) => options.onProgress?.( (pass + progress) / passes );
+
+    const scale = Math.max( 1, Math.ceil( Math.max(sequence1.length, sequence2.length) / resolution ) );
+    const width = Math.max( 1, Math.ceil( sequence1.length / scale ) );
+    const height = Math.max( 1, Math.ceil( sequence2.length / scale ) );
+
+    const residues1 = encodeResidues( sequence1.toUpperCase() );
+    const forward = new Uint8Array(width * height);
+
+    findWords( residues1, encodeResidues( sequence2.toUpperCase() ), wordSize, mismatches, maxCandidates, (x, y) => {
+        forward[ Math.floor(y / scale) * width + Math.floor(x / scale) ] = 1;
+    }, progressFrom(0));
+
+    let reverse:Uint8Array | undefined;
+
+    if( passes == 2 )
+    {
+        const plot = reverse = new Uint8Array(width * height);
+        const last = sequence2.length - 1;
+
+        findWords( residues1, encodeResidues( reverseComplement(sequence2).toUpperCase() ), wordSize, mismatches, maxCandidates, (x, y) => {
+            plot[ Math.floor( (last - y) / scale ) * width + Math.floor(x / scale) ] = 1;
+        }, progressFrom(1));
+    }
+
+    return { width, height, scale, wordSize, mismatches, forward, reverse };
+}
+
+/**
+ * Follows the diagonal through a pixel of the plot (allowing small breaks) and returns the residues it spans.
+ * Clicks are not pixel perfect, so the longest diagonal through the dots closest to the pixel wins over isolated (noise) dots.
+ * @returns undefined if there is no dot at or next to the pixel
+ */
+export function diagonalAt( plot:DotPlot, px:number, py:number, maxBreak = 2 ) {
+    const { width, height, scale, wordSize } = plot;
+    const isDot = ( pixels:Uint8Array, x:number, y:number ) => x >= 0 && y >= 0 && x < width && y < height && pixels[y * width + x] == 1;
+
+    // pixels of the diagonal before and after (x, y), dy is 1 for forward diagonals and -1 for reverse ones
+    const walk = ( pixels:Uint8Array, x:number, y:number, dy:number, direction:number ) => {
+        let steps = 0;
+        for (let i = 1, misses = 0; misses <= maxBreak; i++) {
+            const nx = x + i*direction;
+            if( isDot(pixels, nx, y + i*direction*dy) ) { steps = i; misses = 0; }
+            else if( nx < 0 || nx >= width ) break;
+            else misses++;
+        }
+        return steps;
+    }
+
+    for (let radius = 0; radius <= 2; radius++) {
+        let best:{ x:number, y:number, dy:number, back:number, ahead:number } | undefined;
+
+        for (const [ pixels, dy ] of [ [ plot.forward, 1 ], [ plot.reverse, -1 ] ] as const) {
+            if( !pixels ) continue;
+
+            for (let oy = -radius; oy <= radius; oy++) {
+                for (let ox = -radius; ox <= radius; ox++) {
+                    const x = px + ox;
+                    const y = py + oy;
+                    if( Math.max( Math.abs(ox), Math.abs(oy) ) != radius || !isDot(pixels, x, y) ) continue;
+
+                    const back = walk(pixels, x, y, dy, -1);
+                    const ahead = walk(pixels, x, y, dy, 1);
+                    if( !best || back + ahead > best.back + best.ahead ) best = { x, y, dy, back, ahead };
+                }
+            }
+        }
+
+        if( !best ) continue;
+
+        const { x, y, dy, back, ahead } = best;
+        const [ y0, y1 ] = dy > 0 ? [ y - back, y + ahead ] : [ y - ahead, y + back ];
+
+        // a reverse dot is plotted where its word ends in sequence 2
+        return {
+            reverse: dy < 0,
+            start1: (x - back) * scale,
+            end1: (x + ahead + 1) * scale + wordSize,
+            start2: Math.max( 0, y0 * scale - ( dy < 0 ? wordSize : 0 ) ),
+            end2: (y1 + 1) * scale + ( dy > 0 ? wordSize : 0 ),
+        };
+    }
+}
@@ -0,0 +1,101 @@
+import { BufferAttribute, BufferGeometry, Color, DataTexture, Line, LineBasicMaterial, Mesh, MeshBasicMaterial, NearestFilter, Object3D, PlaneGeometry, RGBAFormat, SRGBColorSpace, Vector2 } from "three";
+import { StrandSense, type AlignmentResult } from "./Aligner";
+import { diagonalAt, type DotPlot } from "./DotPlot";
+import { hitColor } from "./Palette";
+
+const ForwardColor = 0x4cc9f0;
+const ReverseColor = 0xf72585;
+const BothColor = 0xffffff;
+const BackgroundColor = 0x0b132b;
+
+/**
+ * A dot plot as a textured plane (sequence 1 across, sequence 2 down) with the hits of an alignment drawn over it.
+ */
+export class DotPlotView extends Object3D {
+    private plane:Mesh<PlaneGeometry, MeshBasicMaterial>;
+    private texture:DataTexture;
+    private overlay:Line<BufferGeometry, LineBasicMaterial>[] = [];
+
+    constructor( readonly plot:DotPlot, result?:AlignmentResult ) {
+        super();
+
+        const { width, height, forward, reverse } = plot;
+
+        // size: the longest side is 4 units
+        const longest = Math.max(width, height);
+        const sizeX = 4 * width / longest;
+        const sizeY = 4 * height / longest;
+
+        //
+        // texture: one pixel per pixel of the plot, row 0 of the plot at the top
+        //
+        const rgba = ( hex:number ) => [ hex >> 16, (hex >> 8) & 0xff, hex & 0xff, 255 ];
+        const colors = [ rgba(BackgroundColor), rgba(ForwardColor), rgba(ReverseColor), rgba(BothColor) ]; // by forward + 2 * reverse
+        const pixels = new Uint8Array(width * height * 4);
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                pixels.set( colors[ forward[i] + 2 * ( reverse?.[i] ?? 0 ) ], ( (height - 1 - y) * width + x ) * 4 );
+            }
+        }
+
+        this.texture = new DataTexture(pixels, width, height, RGBAFormat);
+        this.texture.magFilter = NearestFilter;
+        this.texture.minFilter = NearestFilter;
+        this.texture.colorSpace = SRGBColorSpace;
+        this.texture.needsUpdate = true;
+
+        this.plane = new Mesh( new PlaneGeometry(sizeX, sizeY), new MeshBasicMaterial({ map: this.texture }) );
+        this.add(this.plane);
+
+        //
+        // the hits of the alignment on top, in the colours the strands use
+        //
+        if( result )
+        {
+            const residueScale = sizeX / ( width * plot.scale );
+            const length2 = result.sequence2.sequence.length;
+
+            result.hits.forEach( (hit, i) => {
+                const minus = hit.stats.sequence2.strand==StrandSense.Minus;
+                const positions = new Float32Array( hit.alignment.flatMap( ({ iA, iB }) => {
+                    const y = minus ? length2 - 1 - iB : iB;
+                    return [ -sizeX/2 + (iA + .5) * residueScale, sizeY/2 - (y + .5) * residueScale, .01 ];
+                }));
+
+                const geometry = new BufferGeometry();
+                geometry.setAttribute('position', new BufferAttribute(positions, 3));
+
+                const line = new Line( geometry, new LineBasicMaterial({ color: new Color( hitColor(i) ).multiplyScalar(3), toneMapped: false }) );
+                this.overlay.push(line);
+                this.add(line);
+            });
+        }
+    }
+
+    /**
+     * The plane, for raycasting
+     */
+    get mesh() {
+        return this.plane;
+    }
+
+    /**
+     * The diagonal under the `uv` of the plane (as given by a raycast hit), see `diagonalAt`
+     */
+    diagonalAt( uv:Vector2 ) {
+        const { width, height } = this.plot;
+        return diagonalAt( this.plot, Math.floor( uv.x * width ), Math.floor( (1 - uv.y) * height ) );
+    }
+
+    dispose() {
+        this.plane.geometry.dispose();
+        this.plane.material.dispose();
+        this.texture.dispose();
+        this.overlay.forEach( line => {
+            line.geometry.dispose();
+            line.material.dispose();
+        });
+    }
+}
@@ -0,0 +1,362 @@
+import { encodeResidues, type Alphabet } from "./Alphabet";
+import type { ScoringScheme } from "./Scoring";
+import { createScoreTable } from "./SubstitutionMatrix";
+
+//
+// traceback byte of each cell: where the H score came from + whether E and F extended a previous gap
+//
+export const FROM_STOP = 0;
+export const FROM_DIAGONAL = 1;
+export const FROM_LEFT = 2;
+export const FROM_TOP = 3;
+export const FROM_MASK = 3;
+export const E_EXTENDS = 4;
+export const F_EXTENDS = 8;
+
+/**
+ * Scores of one row of the matrix. E is not here because it only depends on the cell to the left.
+ */
+export type ScoreRow = {
+    H:Float32Array
+    F:Float32Array
+}
+
+/**
+ * The cell with the best score so far, among the ones an alignment is allowed to end at.
+ */
+export type BestCell = {
+    score:number
+    index:number
+}
+
+/**
+ * A downsampled copy of the H scores, for display. Each cell keeps the best score of a block of `stepX` by `stepY` cells of the matrix, and where it was.
+ */
+export type ScoreMatrixPreview = {
+    columns:number
+    rows:number
+    stepX:number
+    stepY:number
+    /** `columns * rows` scores, row by row */
+    scores:Float32Array
+    /** Column (`x`) and row (`y`) of the matrix each score comes from */
+    cellX:Uint32Array
+    cellY:Uint32Array
+    min:number
+    max:number
+}
+
+/**
+ * Builds the preview of a `W` by `H` matrix, of at most `maxSize` cells per side, out of its rows of H scores.
+ */
+export function previewSampler( W:number, H:number, maxSize:number ) {
+    const stepX = Math.ceil( W / maxSize );
+    const stepY = Math.ceil( H / maxSize );
+    const columns = Math.ceil( W / stepX );
+    const rows = Math.ceil( H / stepY );
+
+    const preview:ScoreMatrixPreview = {
+        columns, rows, stepX, stepY,
+        scores: new Float32Array(columns * rows).fill(-Infinity),
+        cellX: new Uint32Array(columns * rows),
+        cellY: new Uint32Array(columns * rows),
+        min: Infinity,
+        max: -Infinity,
+    };
+
+    const addRow = ( y:number, scores:Float32Array ) => {
+        const offset = Math.floor( y / stepY ) * columns;
+
+        for (let x = 0; x < W; x++) {
+            const score = scores[x];
+            const i = offset + Math.floor( x / stepX );
+
+            if( score > preview.scores[i] )
+            {
+                preview.scores[i] = score;
+                preview.cellX[i] = x;
+                preview.cellY[i] = y;
+            }
+
+            if( score < preview.min ) preview.min = score;
+            if( score > preview.max ) preview.max = score;
+        }
+    }
+
+    return { preview, addRow };
+}
+
+/**
+ * The scoring matrix of two sequences, filled row by row with Gotoh's three state recurrence:
+ * - H: best score of an alignment ending at the cell.
+ * - E: best score ending with residue of sequence 1 against a gap (a move to the left).
+ * - F: best score ending with residue of sequence 2 against a gap (a move to the top).
+ *
+ * Only rows of scores are handed around, so the caller decides how much of the matrix to remember.
+ *
+ * @link https://doi.org/10.1016/0022-2836(82)90398-9
+ */
+export class AlignmentMatrix {
+    /** Columns: residues of sequence 1 + the border */
+    readonly W:number;
+    /** Rows: residues of sequence 2 + the border */
+    readonly H:number;
+    readonly residues1:Uint8Array;
+    readonly residues2:Uint8Array;
+    private scores:Float32Array;
+    private gapOpen:number;
+    private gapExtend:number;
+    private scratch:ScoreRow;
+    /** Cells no alignment may go through, as `y -> x`s */
+    private forbidden = new Map<number, Set<number>>();
+
+    /**
+     * @param local floor the scores at 0 and let the alignment end anywhere (Smith–Waterman)
+     * @param freeEnds1 leading and trailing residues of sequence 1 can be left out for free
+     * @param freeEnds2 leading and trailing residues of sequence 2 can be left out for free
+     */
+    constructor( sequence1:string, sequence2:string, scoring:ScoringScheme, alphabet:Alphabet, readonly local:boolean, readonly freeEnds1:boolean, readonly freeEnds2:boolean )
+    {
+        this.W = sequence1.length + 1;
+        this.H = sequence2.length + 1;
+        this.residues1 = encodeResidues(sequence1);
+        this.residues2 = encodeResidues(sequence2);
+        this.scores = createScoreTable(scoring, alphabet);
+        this.gapOpen = scoring.gap;
+        this.gapExtend = scoring.gapExtend ?? scoring.gap;
+        this.scratch = { H: new Float32Array(this.W), F: new Float32Array(this.W) };
+    }
+
+    /**
+     * Keeps the next fills from going through the cell (local mode): Waterman–Eggert uses it to find alignments that don't share pairs of residues with the previous ones.
+     * @link https://doi.org/10.1016/0022-2836(87)90478-5
+     */
+    forbid( x:number, y:number )
+    {
+        let row = this.forbidden.get(y);
+        if( !row ) this.forbidden.set(y, row = new Set());
+        row.add(x);
+    }
+
+    /**
+     * Score of a path running along the first row/column: `n` residues against a gap
+     */
+    borderScore( n:number, free:boolean )
+    {
+        return this.local || free || n==0 ? 0 : -( this.gapOpen + (n-1)*this.gapExtend );
+    }
+
+    /**
+     * Score of aligning residue `x` of sequence 1 with residue `y` of sequence 2 (1-based, like the cells)
+     */
+    pairScore( x:number, y:number )
+    {
+        return this.scores[ (this.residues1[x-1] << 7) | this.residues2[y-1] ];
+    }
+
+    /**
+     * Scores of row 0
+     */
+    firstRow() :ScoreRow
+    {
+        const row = { H: new Float32Array(this.W), F: new Float32Array(this.W).fill(-Infinity) };
+
+        for (let x = 0; x < this.W; x++) {
+            row.H[x] = this.borderScore(x, this.freeEnds1);
+        }
+
+        return row;
+    }
+
+    /**
+     * Fills the rows `fromY` to `toY` (exclusive). `row` must have the scores of row `fromY-1` and ends up with the ones of row `toY-1`.
+     * @param traceback if set, receives the traceback byte of each cell at `x + (y-fromY)*W`
+     * @param best if set, is updated with the best cell an alignment may end at
+     * @param onRow if set, receives the H scores of each row once filled
+     */
+    fillRows( row:ScoreRow, fromY:number, toY:number, traceback?:Uint8Array, best?:BestCell, onRow?:(y:number, H:Float32Array)=>void )
+    {
+        const { W, H, residues1, residues2, scores, gapOpen, gapExtend, local, freeEnds1, freeEnds2 } = this;
+        const floor = local ? 0 : -Infinity;
+
+        let prevH = row.H;
+        let prevF = row.F;
+        let rowH = this.scratch.H;
+        let rowF = this.scratch.F;
+
+        for (let y = fromY; y < toY; y++) {
+
+            let E = -Infinity;
+            rowH[0] = this.borderScore(y, freeEnds2);
+            rowF[0] = -Infinity;
+
+            const forbiddenRow = this.forbidden.get(y);
+
+            for (let x = 1; x < W; x++) {
+                let pointer = 0;
+
+                if( forbiddenRow?.has(x) )
+                {
+                    // taken by a previous alignment: nothing goes through it, so paths can only start after it
+                    E = -Infinity;
+                    rowF[x] = -Infinity;
+                    rowH[x] = 0;
+                    if( traceback ) traceback[ x + (y-fromY)*W ] = FROM_STOP;
+                    continue;
+                }
+
+                const permScore = scores[ (residues1[x-1] << 7) | residues2[y-1] ];
+
+                // sequence 1 residue against a gap: stay on sequence 2, try the next residue of sequence 1...
+                const eOpen = rowH[x-1] - gapOpen;
+                const eExtend = E - gapExtend;
+                if( eExtend>=eOpen ) pointer |= E_EXTENDS;
+                E = Math.max(eOpen, eExtend);
+
+                // sequence 2 residue against a gap: stays on sequence 1, try the next residue of sequence 2...
+                const fOpen = prevH[x] - gapOpen;
+                const fExtend = prevF[x] - gapExtend;
+                if( fExtend>=fOpen ) pointer |= F_EXTENDS;
+                const F = rowF[x] = Math.max(fOpen, fExtend);
+
+                const myScore = prevH[x-1] + permScore;
+                const score = rowH[x] = Math.max(myScore, E, F, floor);
+
+                if( local && score<=0 )
+                {
+                    pointer |= FROM_STOP;
+                }
+                else if( myScore==score )
+                {
+                    pointer |= FROM_DIAGONAL;
+                }
+                else if( score==E )
+                {
+                    pointer |= FROM_LEFT;
+                }
+                else
+                {
+                    pointer |= FROM_TOP;
+                }
+
+                if( best )
+                {
+                    // local alignments may end anywhere, the others only where the remaining residues would be free end gaps
+                    const canEndHere = local
+                                    || ( y==H-1 && ( freeEnds1 || x==W-1 ) )
+                                    || ( x==W-1 && freeEnds2 );
+
+                    if( canEndHere && score>best.score )
+                    {
+                        best.score = score;
+                        best.index = x + y*W;
+                    }
+                }
+
+                if( traceback )
+                {
+                    traceback[ x + (y-fromY)*W ] = pointer;
+                }
+            }
+
+            onRow?.(y, rowH);
+
+            [prevH, rowH] = [rowH, prevH];
+            [prevF, rowF] = [rowF, prevF];
+        }
+
+        row.H = prevH;
+        row.F = prevF;
+        this.scratch.H = rowH;
+        this.scratch.F = rowF;
+    }
+
+    /**
+     * Local alignment of a band of the matrix (banded Smith–Waterman): only the cells of rows `fromY` to `toY` (exclusive) on the diagonals `x - y` from `fromDiagonal`
+     * to `toDiagonal` are filled, the cells around them score 0 (where local alignments start). Seed-and-extend runs it around chains of seeds instead of filling everything.
+     * Same recurrence and ties as `fillRows`, so an alignment that fits in the band comes out the same.
+     * @param best is updated with the best cell of the band
+     * @returns the traceback byte of a cell (`FROM_STOP` outside of the band)
+     */
+    fillBand( fromY:number, toY:number, fromDiagonal:number, toDiagonal:number, best:BestCell ) :(x:number, y:number)=>number
+    {
+        const { W, residues1, residues2, scores, gapOpen, gapExtend } = this;
+        const B = toDiagonal - fromDiagonal + 1;
+        const traceback = new Uint8Array( Math.max(0, toY - fromY) * B );
+
+        // cell `c` of the band is at `c + 1`: the cells on each side stay as the border (0, and -Infinity for F)
+        let prevH = new Float32Array(B + 2);
+        let prevF = new Float32Array(B + 2).fill(-Infinity);
+        let rowH = new Float32Array(B + 2);
+        let rowF = new Float32Array(B + 2).fill(-Infinity);
+
+        for (let y = fromY; y < toY; y++) {
+            let E = -Infinity;
+            const offset = (y - fromY) * B;
+
+            for (let c = 0; c < B; c++) {
+                const x = y + fromDiagonal + c;
+                const i = c + 1;
+
+                if( x<1 || x>=W )
+                {
+                    rowH[i] = 0;
+                    rowF[i] = -Infinity;
+                    E = -Infinity;
+                    continue;
+                }
+
+                let pointer = 0;
+
+                // to the left: same row, previous diagonal
+                const eOpen = rowH[i-1] - gapOpen;
+                const eExtend = E - gapExtend;
+                if( eExtend>=eOpen ) pointer |= E_EXTENDS;
+                E = Math.max(eOpen, eExtend);
+
+                // above: previous row, next diagonal
+                const fOpen = prevH[i+1] - gapOpen;
+                const fExtend = prevF[i+1] - gapExtend;
+                if( fExtend>=fOpen ) pointer |= F_EXTENDS;
+                const F = rowF[i] = Math.max(fOpen, fExtend);
+
+                // diagonal: previous row, same diagonal
+                const myScore = prevH[i] + scores[ (residues1[x-1] << 7) | residues2[y-1] ];
+                const score = rowH[i] = Math.max(myScore, E, F, 0);
+
+                if( score<=0 )
+                {
+                    pointer |= FROM_STOP;
+                }
+                else if( myScore==score )
+                {
+                    pointer |= FROM_DIAGONAL;
+                }
+                else if( score==E )
+                {
+                    pointer |= FROM_LEFT;
+                }
+                else
+                {
+                    pointer |= FROM_TOP;
+                }
+
+                if( score>best.score )
+                {
+                    best.score = score;
+                    best.index = x + y*W;
+                }
+
+                traceback[ offset + c ] = pointer;
+            }
+
+            [prevH, rowH] = [rowH, prevH];
+            [prevF, rowF] = [rowF, prevF];
+        }
+
+        return (x, y) => {
+            const c = x - y - fromDiagonal;
+            return y>=fromY && y<toY && c>=0 && c<B ? traceback[ (y - fromY) * B + c ] : FROM_STOP;
+        };
+    }
+}
@@ -0,0 +1,363 @@
+import { alignedRange, alignedSequence2, AlignmentMode, AlignmentOutcome, Result, StrandSense, type AlignmentHit, type AlignmentResult, type ResidueResult, type Sequence } from "./Aligner";
+import { Alphabet } from "./Alphabet";
+import { formatFasta } from "./Fasta";
+import type { GuideTree, MultipleAlignmentResult } from "./MultipleAlignment";
+import type { SeedParameters } from "./SeedAndExtend";
+
+/** Name the exports give as the program that made them */
+const packageName = "threejs-local-dna-sequence-aligner";
+
+/**
+ * First word of a FASTA header, what SAM and the pair format call a sequence by.
+ */
+function sequenceId( sequence:Sequence, fallback:string ) {
+    return sequence.name.replace(/^>/, "").trim().split(/\s+/)[0] || fallback;
+}
+
+/**
+ * Scores like `10.5` stay as they are, integers don't get a trailing `.0`
+ */
+const formatScore = ( score:number ) => String( Math.round(score * 100) / 100 );
+
+/**
+ * The 2 rows of an alignment, with `-` for gaps, and the row between them: `|` identity, `:` ambiguous match, `.` mismatch, space for a gap.
+ */
+export function alignmentRows( result:AlignmentResult, hit:AlignmentHit ) {
+    const sequence1 = result.sequence1.sequence;
+    const sequence2 = alignedSequence2({ ...result, stats: hit.stats });
+
+    let row1 = "";
+    let row2 = "";
+    let markup = "";
+
+    for (const { iA, iB, res } of hit.alignment) {
+        row1 += res==Result.B_NOMATCH ? "-" : sequence1[iA];
+        row2 += res==Result.A_NOMATCH ? "-" : sequence2[iB];
+        markup += res==Result.GOOD_MATCH ? "|"
+                : res==Result.AMBIGUOUS_MATCH ? ":"
+                : res==Result.NO_MATCH ? "."
+                : " ";
+    }
+
+    return { row1, row2, markup };
+}
+
+/**
+ * EMBOSS `pair` format, like `water`/`needle` print it: a header with the parameters and stats, then blocks of `lineWidth` columns.
+ * Positions are 1-based. On the minus strand the positions of sequence 2 count down.
+ * @link https://emboss.sourceforge.net/docs/themes/AlignFormats.html
+ */
+export function formatPair( result:AlignmentResult, lineWidth = 50 ) {
+    const name1 = sequenceId(result.sequence1, "sequence1");
+    const name2 = sequenceId(result.sequence2, "sequence2");
+    const nameWidth = Math.max( 13, name1.length, name2.length ) + 1;
+    const { scoring } = result.stats;
+    const lines:string[] = [];
+
+    const divider = "#".repeat(40);
+
+    lines.push(
+        divider,
+        `# Program: ${ packageName }`,
+        `# Aligned_sequences: 2`,
+        `# 1: ${ name1 }`,
+        `# 2: ${ name2 }`,
+        `# Mode: ${ AlignmentMode[result.stats.mode] }`,
+        `# Matrix: ${ scoring.matrix?.name ?? `match ${ formatScore(scoring.match) } mismatch ${ formatScore(scoring.mismatch) }` }`,
+        `# Gap_penalty: ${ formatScore(scoring.gap) }`,
+        `# Extend_penalty: ${ formatScore(scoring.gapExtend ?? scoring.gap) }`,
+    );
+
+    if( result.stats.heuristic )
+    {
+        lines.push( `# Search: ${ describeHeuristic(result.stats.heuristic) }` );
+    }
+
+    lines.push( divider );
+
+    if( result.outcome==AlignmentOutcome.NoSignificantAlignment )
+    {
+        lines.push( "", "# No significant alignment", "" );
+    }
+
+    result.hits.forEach( (hit, i) => {
+        const { stats, alignment } = hit;
+        const identity = alignment.filter( r => r.res==Result.GOOD_MATCH ).length;
+        const similarity = identity + alignment.filter( r => r.res==Result.AMBIGUOUS_MATCH ).length;
+        const percent = (count:number) => `${ count }/${ alignment.length } (${ ( count / ( alignment.length || 1 ) * 100 ).toFixed(1) }%)`;
+
+        lines.push(
+            "",
+            divider,
+            `# Hit: ${ i + 1 }`,
+            `# Length: ${ alignment.length }`,
+            `# Identity:   ${ percent(identity) }`,
+            `# Similarity: ${ percent(similarity) }`,
+            `# Gaps:       ${ percent(stats.gaps) }`,
+            `# Score: ${ formatScore(stats.score) }`,
+        );
+
+        if( stats.significance )
+        {
+            lines.push( `# Bit_score: ${ stats.significance.bitScore.toFixed(1) }`, `# E-value: ${ stats.significance.eValue.toExponential(2) }` );
+        }
+
+        if( stats.sequence2.strand==StrandSense.Minus )
+        {
+            lines.push( `# Strand_2: minus` );
+        }
+
+        lines.push( divider, "" );
+
+        const { row1, row2, markup } = alignmentRows(result, hit);
+        const minus = stats.sequence2.strand==StrandSense.Minus;
+        const length2 = stats.sequence2.length;
+
+        // 1-based position of the next residue of each row, sequence 2 in aligned coordinates
+        let next1 = stats.sequence1.start + 1;
+        let next2 = alignedRange(stats.sequence2).start + 1;
+        const position2 = (aligned:number) => minus ? length2 + 1 - aligned : aligned;
+
+        for (let column = 0; column < alignment.length; column += lineWidth) {
+            const chunk1 = row1.slice(column, column + lineWidth);
+            const chunk2 = row2.slice(column, column + lineWidth);
+            const residues1 = chunk1.replace(/-/g, "").length;
+            const residues2 = chunk2.replace(/-/g, "").length;
+
+            // a row without residues shows the position of the last one, like EMBOSS does
+            const from1 = residues1 ? next1 : next1 - 1;
+            const from2 = residues2 ? next2 : next2 - 1;
+            next1 += residues1;
+            next2 += residues2;
+
+            const row = (name:string, from:number, chunk:string, to:number) => `${ name.padEnd(nameWidth) }${ String(from).padStart(6) } ${ chunk } ${ String(to).padStart(6) }`;
+
+            lines.push(
+                row(name1, from1, chunk1, next1 - 1),
+                `${ "".padEnd(nameWidth + 7) }${ markup.slice(column, column + lineWidth) }`,
+                row(name2, position2(from2), chunk2, position2(next2 - 1)),
+                "",
+            );
+        }
+    });
+
+    return lines.join("\n");
+}
+
+/**
+ * Seed-and-extend parameters in words, so a report says the search was heuristic
+ */
+export function describeHeuristic( { wordSize, bandWidth, minSeeds, maxSeedGap, maxWordOccurrences, maxChains }:SeedParameters ) {
+    return `seed-and-extend (heuristic), word ${ wordSize }, band +/-${ bandWidth }, ${ minSeeds } seeds within ${ maxSeedGap } per chain, words over ${ maxWordOccurrences } hits ignored, up to ${ maxChains } chains`;
+}
+
+/**
+ * CIGAR of an alignment with sequence 1 as the reference: `M` aligned pair, `I` residue of sequence 2 against a gap, `D` residue of sequence 1 against a gap.
+ * Residues of sequence 2 left out of the alignment are soft clipped (`S`).
+ * @link https://samtools.github.io/hts-specs/SAMv1.pdf
+ */
+export function toCigar( alignment:ResidueResult[], clipStart = 0, clipEnd = 0 ) {
+    let cigar = clipStart ? `${ clipStart }S` : "";
+    let op = "";
+    let count = 0;
+
+    for (const { res } of alignment) {
+        const next = res==Result.B_NOMATCH ? "I" : res==Result.A_NOMATCH ? "D" : "M";
+
+        if( next!=op && count )
+        {
+            cigar += count + op;
+            count = 0;
+        }
+
+        op = next;
+        count++;
+    }
+
+    if( count ) cigar += count + op;
+    if( clipEnd ) cigar += `${ clipEnd }S`;
+
+    return cigar || "*";
+}
+
+/**
+ * The CIGAR of a SAM record, which can't start or end with a gap (global, glocal and overlap modes have end gaps): residues of sequence 1 against the end gaps are left out
+ * (`skipped` of them before the record's position), residues of sequence 2 against them are soft clipped.
+ */
+function samCigar( alignment:ResidueResult[], clipStart:number, clipEnd:number ) {
+    const isGap = ( { res }:ResidueResult ) => res==Result.A_NOMATCH || res==Result.B_NOMATCH;
+    let first = 0;
+    let last = alignment.length;
+    let skipped = 0;
+
+    for (; first < last && isGap(alignment[first]); first++) {
+        if( alignment[first].res==Result.A_NOMATCH ) skipped++;
+        else clipStart++;
+    }
+
+    for (; last > first && isGap(alignment[last - 1]); last--) {
+        if( alignment[last - 1].res==Result.B_NOMATCH ) clipEnd++;
+    }
+
+    const aligned = alignment.slice(first, last);
+    return { aligned, skipped, cigar: toCigar(aligned, clipStart, clipEnd) };
+}
+
+/**
+ * A minimal SAM file: sequence 1 is the reference, sequence 2 the read. One record per hit, the ones after the best are flagged secondary.
+ * On the minus strand the read is written reverse complemented (flag 16), as SAM wants it.
+ * @link https://samtools.github.io/hts-specs/SAMv1.pdf
+ */
+export function formatSam( result:AlignmentResult ) {
+    return [ ...samHeader([ result.sequence1 ]), ...samRecords(result) ].join("\n") + "\n";
+}
+
+/**
+ * SAM header lines declaring the references (sequence 1 of each alignment)
+ */
+export function samHeader( references:Sequence[] ) {
+    return [
+        `@HD\tVN:1.6\tSO:unsorted`,
+        ...references.map( reference => `@SQ\tSN:${ sequenceId(reference, "sequence1") }\tLN:${ reference.sequence.length }` ),
+        `@PG\tID:${ packageName }\tPN:${ packageName }`,
+    ];
+}
+
+/**
+ * QUAL of the read: its FASTQ qualities in the order of SEQ (reversed on the minus strand), `*` if it has none
+ */
+function samQuality( sequence:Sequence, minus:boolean ) {
+    if( !sequence.quality ) return "*";
+    return minus ? [ ...sequence.quality ].reverse().join("") : sequence.quality;
+}
+
+/**
+ * SAM alignment lines of every hit of the result, see `formatSam`
+ */
+export function samRecords( result:AlignmentResult ) {
+    const reference = sequenceId(result.sequence1, "sequence1");
+    const read = sequenceId(result.sequence2, "sequence2");
+    const lines:string[] = [];
+
+    result.hits.forEach( (hit, i) => {
+        const { stats, alignment } = hit;
+        const minus = stats.sequence2.strand==StrandSense.Minus;
+        const range2 = alignedRange(stats.sequence2);
+        const { aligned, skipped, cigar } = samCigar( alignment, range2.start, stats.sequence2.length - 1 - range2.end );
+        const mapped = aligned.length > 0;
+
+        let flag = 0;
+        if( !mapped ) flag |= 4;
+        if( minus ) flag |= 16;
+        if( i > 0 ) flag |= 256;
+
+        // edit distance to the reference: mismatches, ambiguous matches (not the same residue) and residues against gaps
+        const editDistance = aligned.filter( r => r.res!=Result.GOOD_MATCH ).length;
+
+        lines.push([
+            read,
+            flag,
+            mapped ? reference : "*",
+            mapped ? stats.sequence1.start + 1 + skipped : 0,
+            mapped ? 255 : 0,
+            mapped ? cigar : "*",
+            "*",
+            0,
+            0,
+            i > 0 ? "*" : alignedSequence2({ ...result, stats }) || "*", // secondary records may leave SEQ out
+            i > 0 ? "*" : samQuality(result.sequence2, minus),
+            `AS:i:${ Math.round(stats.score) }`,
+            `NM:i:${ editDistance }`,
+        ].join("\t"));
+    });
+
+    // the read is reported anyway, as unmapped
+    if( !result.hits.length )
+    {
+        lines.push([ read, 4, "*", 0, 0, "*", "*", 0, 0, result.sequence2.sequence || "*", samQuality(result.sequence2, false) ].join("\t"));
+    }
+
+    return lines;
+}
+
+/**
+ * Bump when the shape of `AlignmentDocument` changes.
+ */
+export const ALIGNMENT_DOCUMENT_VERSION = 3;
+
+/**
+ * Everything about an alignment as JSON, for pipelines and notebooks.
+ */
+export type AlignmentDocument = {
+    format:"dna-alignment"
+    version:number
+    /** `Aligned` or `NoSignificantAlignment` (then `hits` is empty). Since version 2 */
+    outcome:string
+    sequence1:Sequence
+    sequence2:Sequence
+    parameters:{
+        alphabet:string
+        mode:string
+        scoring:AlignmentResult["stats"]["scoring"]
+        /** Seed-and-extend parameters, if the search was heuristic. Since version 3 */
+        heuristic?:SeedParameters
+    }
+    /** 
+     * Each hit with its CIGAR (see `toCigar`), column for column of its `alignment`: unlike SAM's, it keeps the end gaps of global, glocal and overlap hits,
+     * so it starts at `stats.sequence1.start` as the alignment does
+     */
+    hits:(AlignmentHit & { cigar:string })[]
+}
+
+/**
+ * @param space indentation, 0 writes it in one line (for JSON Lines)
+ */
+export function formatJson( result:AlignmentResult, space = 2 ) {
+    const { stats } = result;
+
+    const document:AlignmentDocument = {
+        format: "dna-alignment",
+        version: ALIGNMENT_DOCUMENT_VERSION,
+        outcome: AlignmentOutcome[result.outcome],
+        sequence1: result.sequence1,
+        sequence2: result.sequence2,
+        parameters: {
+            alphabet: Alphabet[stats.alphabet],
+            mode: AlignmentMode[stats.mode],
+            scoring: stats.scoring,
+            heuristic: stats.heuristic,
+        },
+        hits: result.hits.map( hit => {
+            const range2 = alignedRange(hit.stats.sequence2);
+            return { ...hit, cigar: toCigar( hit.alignment, range2.start, hit.stats.sequence2.length - 1 - range2.end ) };
+        }),
+    };
+
+    return JSON.stringify(document, null, space || undefined);
+}
+
+/**
+ * The rows of a multiple alignment as FASTA, gaps included, in the order of the guide tree (like Clustal writes them)
+ * @param lineWidth residues per line
+ */
+export function formatAlignedFasta( msa:MultipleAlignmentResult, lineWidth = 60 ) {
+    return msa.order.map( i => formatFasta({ name: ">" + sequenceId(msa.sequences[i], `sequence${ i + 1 }`), sequence: msa.rows[i] }, lineWidth) ).join("\n") + "\n";
+}
+
+/**
+ * The guide tree of a multiple alignment in Newick format, branch lengths being the difference of the heights of their ends.
+ * Names lose the characters Newick reserves.
+ * @link https://en.wikipedia.org/wiki/Newick_format
+ */
+export function formatNewick( msa:MultipleAlignmentResult ) {
+    const write = ( node:GuideTree, parentHeight:number ) :string => {
+        const length = String( Number( (parentHeight - node.height).toFixed(5) ) );
+        const label = node.children
+                    ? `(${ node.children.map( child => write(child, node.height) ).join(",") })`
+                    : sequenceId(msa.sequences[node.sequence!], `sequence${ node.sequence! + 1 }`).replace(/[\s(),:;[\]']/g, "_");
+
+        return `${ label }:${ length }`;
+    }
+
+    return write(msa.tree, msa.tree.height).replace(/:0$/, "") + ";\n";
+}
@@ -0,0 +1,115 @@
+import type { Sequence } from "./Aligner";
+import type { Feature } from "./Annotations";
+
+/**
+ * One `>` entry of a FASTA file. `name` is the whole header line, as the Aligner reports it.
+ */
+export type FastaRecord = Sequence & {
+    /** First word of the header (like `NM_030752.3`) */
+    id:string
+    /** The rest of the header */
+    description:string
+    /** 1-based line of the header (of the first residues, for a record without one) */
+    line:number
+    /** Annotations of the record (GenBank and EMBL feature tables) */
+    features?:Feature[]
+}
+
+/**
+ * Text that isn't a valid sequence file (of any of the formats in `SequenceFormats`) or annotation file (`Annotations`), and where: 1-based `line` and `column` of the text.
+ */
+export class SequenceParseError extends Error {
+    constructor( message:string, readonly line:number, readonly column:number ) {
+        super(message);
+        this.name = "SequenceParseError";
+    }
+}
+
+/**
+ * Text that isn't valid FASTA
+ */
+export class FastaParseError extends SequenceParseError {
+    constructor( message:string, line:number, column:number ) {
+        super(message, line, column);
+        this.name = "FastaParseError";
+    }
+}
+
+/**
+ * What a residue line may not have. Allowed: letters (IUPAC codes, soft-masked in lower case), `*` (stop), `-` (gap) and whitespace (see `nonResidues`).
+ */
+export const illegalCharacter = /[^A-Za-z*\s-]/;
+
+/**
+ * What a residue line may have that isn't a residue, left out of the sequence: whitespace, `*` (stop) and `-` (gap, of aligned FASTA)
+ */
+export const nonResidues = /[\s*-]+/g;
+
+/**
+ * Parses every record of a FASTA file. Lines starting with `;` are comments.
+ * Text before the first header is taken as a record without a name (a bare sequence). Stops and gaps are left out of the residues.
+ * @link https://en.wikipedia.org/wiki/FASTA_format
+ * @throws FastaParseError at the first character of a residue line that can't be a residue (digits, punctuation...)
+ */
+export function parseFasta( fasta:string ) :FastaRecord[] {
+    const records:FastaRecord[] = [];
+    const lines = fasta.split(/\r?\n/);
+
+    let record:FastaRecord | undefined;
+    let sequence:string[] = [];
+
+    const close = () => {
+        if( record )
+        {
+            record.sequence = sequence.join("");
+            records.push(record);
+        }
+        sequence = [];
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line || line.startsWith(';')) continue;
+
+        if (line.startsWith('>')) {
+            close();
+
+            const header = line.slice(1).trim();
+            const space = header.search(/\s/);
+
+            record = {
+                name: line,
+                id: space<0 ? header : header.slice(0, space),
+                description: space<0 ? "" : header.slice(space).trim(),
+                sequence: "",
+                line: i + 1,
+            };
+            continue;
+        }
+
+        record ??= { name: "", id: "", description: "", sequence: "", line: i + 1 };
+
+        const illegal = lines[i].search(illegalCharacter);
+        if( illegal>=0 ) throw new FastaParseError(`Illegal character "${ lines[i][illegal] }" in the residues of ${ record.name || "the sequence" }`, i + 1, illegal + 1);
+
+        sequence.push( line.replace(nonResidues, "") );
+    }
+
+    close();
+
+    return records;
+}
+
+/**
+ * Writes a record back as FASTA text.
+ * @param lineWidth residues per line
+ */
+export function formatFasta( record:Sequence, lineWidth = 70 ) {
+    const lines = [ record.name.startsWith(">") ? record.name : ">" + record.name ];
+
+    for (let i = 0; i < record.sequence.length; i += lineWidth) {
+        lines.push( record.sequence.slice(i, i + lineWidth) );
+    }
+
+    return lines.join("\n");
+}
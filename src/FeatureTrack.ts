@@ -0,0 +1,163 @@
+import { BufferAttribute, BufferGeometry, Color, DoubleSide, LineBasicMaterial, LineSegments, Mesh, MeshBasicMaterial, Object3D, Vector3 } from "three";
+import type { Feature } from "./Annotations";
+import { featureColor } from "./Palette";
+
+/**
+ * Where to write the name of a feature, in the coordinates of the track
+ */
+export type FeatureLabel = {
+    text:string
+    position:Vector3
+    feature:Feature
+}
+
+/** Width of a ribbon, and the most lanes overlapping features are spread on */
+const ribbonWidth = .035;
+const maxLanes = 8;
+/** Longest arrowhead, in radians */
+const arrowAngle = .04;
+/** Features labelled (the longest ones), so small ones don't bury the scene in text */
+const maxLabels = 24;
+
+/**
+ * The features of one sequence drawn around its strand: each part (exon) an arc of ribbon over its residues, placed with the angles the strand uses,
+ * the gaps between parts (introns) as thin arcs and an arrowhead at the end the feature reads towards. Overlapping features go on separate lanes.
+ */
+export class FeatureTrack extends Object3D {
+    readonly labels:FeatureLabel[] = [];
+    private ribbons:Mesh<BufferGeometry, MeshBasicMaterial>;
+    private introns:LineSegments<BufferGeometry, LineBasicMaterial>;
+
+    /**
+     * @param angleOf angle of the residue at a position (0-based, in the sequence as given) around the strand
+     * @param stepAng angle of one residue
+     * @param radius of the first lane
+     * @param laneStep from one lane to the next, negative to stack them inwards
+     * @param reversed the strand draws the reverse complement: angles go down along the sequence
+     */
+    constructor( readonly features:Feature[], angleOf:(position:number)=>number, stepAng:number, radius:number, laneStep:number, reversed:boolean ) {
+        super();
+
+        const triangles:number[] = [];
+        const triangleColors:number[] = [];
+        const lines:number[] = [];
+        const lineColors:number[] = [];
+        const color = new Color();
+
+        // span of each segment in angles, growing the way the strand is drawn
+        const arcs = features.map( feature => feature.segments.map( ({ start, end }) => {
+            const [ from, to ] = [ angleOf(start), angleOf(end - 1) ].sort( (a, b) => a - b );
+            return { from: from - stepAng/2, to: to + stepAng/2 };
+        }).sort( (a, b) => a.from - b.from ));
+
+        //
+        // lanes: the first one free by the time the feature starts
+        //
+        const order = features.map( (_, i) => i ).sort( (a, b) => arcs[a][0].from - arcs[b][0].from );
+        const laneEnds:number[] = [];
+        const lanes = new Int32Array(features.length);
+
+        for (const i of order) {
+            let lane = laneEnds.findIndex( end => end < arcs[i][0].from );
+            if( lane<0 ) lane = laneEnds.length < maxLanes ? laneEnds.length : maxLanes - 1;
+
+            lanes[i] = lane;
+            laneEnds[lane] = Math.max( laneEnds[lane] ?? -Infinity, arcs[i][ arcs[i].length - 1 ].to );
+        }
+
+        const point = ( angle:number, r:number ) => [ Math.cos(angle) * r, Math.sin(angle) * r, 0 ];
+
+        const addTriangle = ( a:number[], b:number[], c:number[] ) => {
+            triangles.push( ...a, ...b, ...c );
+            for (let k = 0; k < 3; k++) triangleColors.push( color.r, color.g, color.b );
+        }
+
+        /** A band of ribbon from angle `from` to `to` */
+        const addBand = ( from:number, to:number, r:number, width:number ) => {
+            const steps = Math.max( 1, Math.ceil( (to - from) / .02 ) );
+
+            for (let s = 0; s < steps; s++) {
+                const a0 = from + (to - from) * s / steps;
+                const a1 = from + (to - from) * (s + 1) / steps;
+                addTriangle( point(a0, r - width/2), point(a1, r - width/2), point(a1, r + width/2) );
+                addTriangle( point(a0, r - width/2), point(a1, r + width/2), point(a0, r + width/2) );
+            }
+        }
+
+        features.forEach( (feature, i) => {
+            const r = radius + lanes[i] * laneStep;
+            const parts = arcs[i];
+            const direction = feature.strand * ( reversed ? -1 : 1 );
+            color.set( featureColor(feature.type) );
+
+            parts.forEach( ({ from, to }, p) => {
+                // the arrowhead takes the end of the last part the feature reads towards
+                const head = direction>0 ? p==parts.length - 1 : direction<0 && p==0;
+                const arrow = head ? Math.min( arrowAngle, to - from ) : 0;
+
+                if( direction>0 )
+                {
+                    addBand( from, to - arrow, r, ribbonWidth );
+                    if( arrow ) addTriangle( point(to - arrow, r - ribbonWidth), point(to, r), point(to - arrow, r + ribbonWidth) );
+                }
+                else
+                {
+                    addBand( from + arrow, to, r, ribbonWidth );
+                    if( arrow ) addTriangle( point(from + arrow, r + ribbonWidth), point(from, r), point(from + arrow, r - ribbonWidth) );
+                }
+
+                // intron: a thin arc to the next part
+                const next = parts[p + 1];
+                if( next )
+                {
+                    const steps = Math.max( 1, Math.ceil( (next.from - to) / .02 ) );
+                    for (let s = 0; s < steps; s++) {
+                        lines.push( ...point( to + (next.from - to) * s / steps, r ), ...point( to + (next.from - to) * (s + 1) / steps, r ) );
+                        lineColors.push( color.r, color.g, color.b, color.r, color.g, color.b );
+                    }
+                }
+            });
+        });
+
+        //
+        // labels: the longest features, in the middle of their span, on the far side of the ribbon
+        //
+        features
+            .map( (feature, i) => ({ feature, i, from: arcs[i][0].from, to: arcs[i][ arcs[i].length - 1 ].to }) )
+            .sort( (a, b) => (b.to - b.from) - (a.to - a.from) )
+            .slice( 0, maxLabels )
+            .forEach( ({ feature, i, from, to }) => this.labels.push({
+                text: `${ feature.type } ${ feature.name }`,
+                position: new Vector3( ...point( (from + to) / 2, radius + lanes[i] * laneStep + Math.sign(laneStep) * ribbonWidth ) ),
+                feature,
+            }));
+
+        const ribbonGeometry = new BufferGeometry();
+        ribbonGeometry.setAttribute('position', new BufferAttribute( new Float32Array(triangles), 3 ));
+        ribbonGeometry.setAttribute('color', new BufferAttribute( new Float32Array(triangleColors), 3 ));
+
+        this.ribbons = new Mesh( ribbonGeometry, new MeshBasicMaterial({ vertexColors: true, side: DoubleSide, transparent: true, opacity: .85 }) );
+        this.add(this.ribbons);
+
+        const intronGeometry = new BufferGeometry();
+        intronGeometry.setAttribute('position', new BufferAttribute( new Float32Array(lines), 3 ));
+        intronGeometry.setAttribute('color', new BufferAttribute( new Float32Array(lineColors), 3 ));
+
+        this.introns = new LineSegments( intronGeometry, new LineBasicMaterial({ vertexColors: true, transparent: true, opacity: .6 }) );
+        this.add(this.introns);
+    }
+
+    /**
+     * The features covering a position (0-based, in the sequence as given)
+     */
+    featuresAt( position:number ) {
+        return this.features.filter( feature => feature.segments.some( ({ start, end }) => position>=start && position<end ) );
+    }
+
+    dispose() {
+        this.ribbons.geometry.dispose();
+        this.ribbons.material.dispose();
+        this.introns.geometry.dispose();
+        this.introns.material.dispose();
+    }
+}
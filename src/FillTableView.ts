@@ -0,0 +1,133 @@
+import { BufferAttribute, BufferGeometry, Color, InstancedMesh, LineBasicMaterial, LineSegments, Matrix4, MeshBasicMaterial, Object3D, PlaneGeometry, Vector3 } from "three";
+import { FROM_DIAGONAL, FROM_LEFT, FROM_MASK, FROM_TOP } from "./DynamicProgramming";
+import { scoreColor } from "./Palette";
+import type { FillRecording } from "./StepByStep";
+
+const EmptyColor = new Color(0x1a1a2e);
+const CurrentColor = new Color(0xffffff);
+const TracebackColor = new Color(4, 3, 1);
+
+/**
+ * The DP table of a `FillRecording` (sequence 1 across, sequence 2 down): one square per cell, coloured by score as the fill reaches it,
+ * with an arrow to where its score came from. The traceback lights up on top once the fill is done.
+ */
+export class FillTableView extends Object3D {
+    private cells:InstancedMesh<PlaneGeometry, MeshBasicMaterial>;
+    private pointers:LineSegments<BufferGeometry, LineBasicMaterial>;
+    private cellSize:number;
+    private min = Infinity;
+    private max = -Infinity;
+
+    constructor( readonly recording:FillRecording, size = 3.5 ) {
+        super();
+
+        const { W, H, scores, steps } = recording;
+        this.cellSize = size / Math.max(W, H);
+
+        for (let i = 0; i < scores.length; i++) {
+            if( !Number.isFinite(scores[i]) ) continue;
+            this.min = Math.min( this.min, scores[i] );
+            this.max = Math.max( this.max, scores[i] );
+        }
+
+        //
+        // cells
+        //
+        this.cells = new InstancedMesh( new PlaneGeometry( this.cellSize * .92, this.cellSize * .92 ), new MeshBasicMaterial(), W * H );
+        const matrix = new Matrix4();
+
+        for (let y = 0; y < H; y++) {
+            for (let x = 0; x < W; x++) {
+                this.cells.setMatrixAt( x + y*W, matrix.makeTranslation( this.cellPosition(x, y) ) );
+                this.cells.setColorAt( x + y*W, EmptyColor );
+            }
+        }
+
+        this.add(this.cells);
+
+        //
+        // pointers: a short segment from each cell towards the one its score came from, in fill order
+        //
+        const positions = new Float32Array( steps.length * 6 );
+
+        steps.forEach( ({ x, y, pointer }, i) => {
+            const from = this.cellPosition(x, y).setZ(.01);
+            const to = from.clone();
+
+            switch( pointer & FROM_MASK )
+            {
+                case FROM_DIAGONAL: to.copy( this.cellPosition(x-1, y-1) ); break;
+                case FROM_LEFT: to.copy( this.cellPosition(x-1, y) ); break;
+                case FROM_TOP: to.copy( this.cellPosition(x, y-1) ); break;
+            }
+
+            to.lerp(from, .4).setZ(.01);
+            from.toArray(positions, i * 6);
+            to.toArray(positions, i * 6 + 3);
+        });
+
+        const geometry = new BufferGeometry();
+        geometry.setAttribute('position', new BufferAttribute(positions, 3));
+
+        this.pointers = new LineSegments( geometry, new LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: .6 }) );
+        this.add(this.pointers);
+
+        this.show(0, 0);
+    }
+
+    /**
+     * Center of a cell, in the coordinates of this object
+     */
+    cellPosition( x:number, y:number ) {
+        const { W, H } = this.recording;
+        return new Vector3( ( x - (W-1)/2 ) * this.cellSize, ( (H-1)/2 - y ) * this.cellSize, 0 );
+    }
+
+    /**
+     * Column and row of a cell by its instance (as given by a raycast hit)
+     */
+    cellAt( instanceId:number ) {
+        const { W } = this.recording;
+        return { x: instanceId % W, y: Math.floor( instanceId / W ) };
+    }
+
+    /**
+     * Shows the table after `filled` steps of the fill and `traced` cells of the traceback.
+     */
+    show( filled:number, traced:number ) {
+        const { W, H, scores, steps, traceback } = this.recording;
+        const color = new Color();
+        const isFilled = ( x:number, y:number ) => x==0 || y==0 || (x-1) + (y-1)*(W-1) < filled;
+
+        for (let y = 0; y < H; y++) {
+            for (let x = 0; x < W; x++) {
+                const i = x + y*W;
+                const t = this.max > this.min ? ( scores[i] - this.min ) / ( this.max - this.min ) : 0;
+                this.cells.setColorAt( i, isFilled(x, y) ? scoreColor(t, color) : EmptyColor );
+            }
+        }
+
+        const current = steps[filled - 1];
+        if( current && filled < steps.length ) this.cells.setColorAt( current.x + current.y*W, CurrentColor );
+
+        traceback.slice(0, traced).forEach( i => this.cells.setColorAt(i, TracebackColor) );
+
+        this.cells.instanceColor!.needsUpdate = true;
+        this.pointers.geometry.setDrawRange( 0, Math.min(filled, steps.length) * 2 );
+    }
+
+    /**
+     * The cells, for raycasting
+     */
+    get mesh() {
+        return this.cells;
+    }
+
+    dispose() {
+        this.cells.geometry.dispose();
+        this.cells.material.dispose();
+        this.cells.dispose();
+        this.pointers.geometry.dispose();
+        this.pointers.material.dispose();
+    }
+}
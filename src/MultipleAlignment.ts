@@ -0,0 +1,360 @@
+import { Aligner, AlignmentError, AlignmentMode, type AlignerOptions, type Sequence } from "./Aligner";
+import { Alphabet, detectAlphabet } from "./Alphabet";
+import { E_EXTENDS, F_EXTENDS, FROM_DIAGONAL, FROM_LEFT, FROM_MASK, FROM_TOP } from "./DynamicProgramming";
+import { formatFasta } from "./Fasta";
+import { ScoringPresets, type ScoringScheme } from "./Scoring";
+import { createScoreTable } from "./SubstitutionMatrix";
+
+/**
+ * Rooted tree of the sequences, closest ones joined first (UPGMA). It sets the order in which profiles are aligned.
+ */
+export type GuideTree = {
+    /** Leaves only: index of the sequence */
+    sequence?:number
+    /** Internal nodes only: the 2 clusters it joins */
+    children?:[ GuideTree, GuideTree ]
+    /** Half the distance between the clusters it joins, 0 for leaves */
+    height:number
+}
+
+export type MultipleAlignmentOptions = Pick<AlignerOptions, "alphabet" | "scoring" | "onProgress"> & {
+    /** Profile alignments with more cells than this are refused (they keep one traceback byte per cell). Defaults to 2^28 */
+    maxCells?:number
+}
+
+export type MultipleAlignmentResult = {
+    sequences:Sequence[]
+    /** One row per sequence (in the order given): its residues with `-` for the gaps, all the same length */
+    rows:string[]
+    /** Per column: fraction of the sequences having its most common residue (case ignored, gaps never count) */
+    conservation:number[]
+    /** `1 - identity` of the global alignment of each pair of sequences */
+    distances:number[][]
+    tree:GuideTree
+    /** Sequences in the order of the leaves of the tree, so related ones end up next to each other */
+    order:number[]
+    alphabet:Alphabet
+    scoring:ScoringScheme
+}
+
+/**
+ * Sequences of a guide tree, left to right
+ */
+export function leafOrder( tree:GuideTree ) :number[] {
+    return tree.children ? tree.children.flatMap(leafOrder) : [ tree.sequence! ];
+}
+
+/**
+ * Joins the 2 closest clusters until one is left, the distance to a new cluster being the average of its members' (UPGMA).
+ * @link https://en.wikipedia.org/wiki/UPGMA
+ */
+export function upgma( distances:number[][] ) :GuideTree {
+    const clusters = distances.map( (_, i) => ({ tree: { sequence: i, height: 0 } as GuideTree, size: 1, distances: distances[i].slice() }) );
+    const alive = clusters.map( (_, i) => i );
+
+    while( alive.length > 1 )
+    {
+        let best = { a: 0, b: 1, distance: Infinity };
+
+        for (let i = 0; i < alive.length; i++) {
+            for (let j = i + 1; j < alive.length; j++) {
+                const distance = clusters[ alive[i] ].distances[ alive[j] ];
+                if( distance < best.distance ) best = { a: i, b: j, distance };
+            }
+        }
+
+        const a = clusters[ alive[best.a] ];
+        const b = clusters[ alive[best.b] ];
+        const size = a.size + b.size;
+
+        // the joined cluster takes the place of `a`
+        a.tree = { children: [ a.tree, b.tree ], height: best.distance / 2 };
+        for (const k of alive) {
+            const distance = ( a.distances[k] * a.size + b.distances[k] * b.size ) / size;
+            a.distances[k] = distance;
+            clusters[k].distances[ alive[best.a] ] = distance;
+        }
+        a.size = size;
+
+        alive.splice(best.b, 1);
+    }
+
+    return clusters[ alive[0] ].tree;
+}
+
+/**
+ * A block of aligned sequences: their indexes and rows (as arrays of residues, `-` for gaps)
+ */
+type Profile = {
+    members:number[]
+    rows:string[][]
+}
+
+/**
+ * Residues of a profile column, as `frequencies[column * K + residue]`: the fraction of the rows having that residue (gaps add up to what's missing to 1)
+ */
+function profileFrequencies( profile:Profile, codes:Int16Array, K:number ) {
+    const length = profile.rows[0].length;
+    const frequencies = new Float64Array( length * K );
+    const weight = 1 / profile.rows.length;
+
+    for (const row of profile.rows) {
+        for (let column = 0; column < length; column++) {
+            const residue = row[column];
+            if( residue!="-" ) frequencies[ column * K + codes[ residue.charCodeAt(0) & 127 ] ] += weight;
+        }
+    }
+
+    return frequencies;
+}
+
+/**
+ * Aligns 2 profiles end to end with affine gaps (Gotoh, like `AlignmentMatrix`), a pair of columns scoring the average score of the pairs of residues they have (sum of pairs).
+ * A gap opened in a profile is a gap in all its rows.
+ * @param pairScores `K * K` scores of the residues by their code
+ */
+function alignProfiles( a:Profile, b:Profile, codes:Int16Array, K:number, pairScores:Float64Array, gapOpen:number, gapExtend:number, maxCells:number ) :Profile {
+    const W = a.rows[0].length + 1;
+    const H = b.rows[0].length + 1;
+
+    if( W * H > maxCells ) throw new AlignmentError(`Profiles of ${ W - 1 } and ${ H - 1 } columns are too long to align (${ W * H } cells, at most ${ maxCells })`);
+
+    const frequenciesA = profileFrequencies(a, codes, K);
+    const frequenciesB = profileFrequencies(b, codes, K);
+
+    // score of each residue against each column of b, so a pair of columns costs K multiplications
+    const againstB = new Float64Array( (H - 1) * K );
+    for (let y = 0; y < H - 1; y++) {
+        for (let r = 0; r < K; r++) {
+            let score = 0;
+            for (let s = 0; s < K; s++) score += frequenciesB[ y * K + s ] * pairScores[ r * K + s ];
+            againstB[ y * K + r ] = score;
+        }
+    }
+
+    const border = ( n:number ) => n==0 ? 0 : -( gapOpen + (n-1)*gapExtend );
+    const traceback = new Uint8Array( W * H );
+
+    let prevH = new Float64Array(W);
+    let prevF = new Float64Array(W).fill(-Infinity);
+    let rowH = new Float64Array(W);
+    let rowF = new Float64Array(W);
+
+    for (let x = 0; x < W; x++) prevH[x] = border(x);
+
+    for (let y = 1; y < H; y++) {
+        let E = -Infinity;
+        rowH[0] = border(y);
+        rowF[0] = -Infinity;
+
+        for (let x = 1; x < W; x++) {
+            let pointer = 0;
+
+            let columnScore = 0;
+            for (let r = 0; r < K; r++) columnScore += frequenciesA[ (x-1) * K + r ] * againstB[ (y-1) * K + r ];
+
+            // column of a against a gap...
+            const eOpen = rowH[x-1] - gapOpen;
+            const eExtend = E - gapExtend;
+            if( eExtend>=eOpen ) pointer |= E_EXTENDS;
+            E = Math.max(eOpen, eExtend);
+
+            // column of b against a gap...
+            const fOpen = prevH[x] - gapOpen;
+            const fExtend = prevF[x] - gapExtend;
+            if( fExtend>=fOpen ) pointer |= F_EXTENDS;
+            const F = rowF[x] = Math.max(fOpen, fExtend);
+
+            const diagonal = prevH[x-1] + columnScore;
+            const score = rowH[x] = Math.max(diagonal, E, F);
+
+            pointer |= score==diagonal ? FROM_DIAGONAL : score==E ? FROM_LEFT : FROM_TOP;
+            traceback[ x + y*W ] = pointer;
+        }
+
+        [prevH, rowH] = [rowH, prevH];
+        [prevF, rowF] = [rowF, prevF];
+    }
+
+    //
+    // traceback from the last cell, following the state we are in (H, E or F), as `columns` of a and b (-1 for a gap)
+    //
+    const columnsA:number[] = [];
+    const columnsB:number[] = [];
+    let x = W - 1;
+    let y = H - 1;
+    let state = FROM_DIAGONAL;
+
+    while( x>0 && y>0 )
+    {
+        const pointer = traceback[ x + y*W ];
+
+        if( state==FROM_DIAGONAL )
+        {
+            state = pointer & FROM_MASK;
+            if( state!=FROM_DIAGONAL ) continue;
+
+            columnsA.push(--x);
+            columnsB.push(--y);
+        }
+        else if( state==FROM_LEFT )
+        {
+            columnsA.push(--x);
+            columnsB.push(-1);
+            if( !(pointer & E_EXTENDS) ) state = FROM_DIAGONAL;
+        }
+        else
+        {
+            columnsA.push(-1);
+            columnsB.push(--y);
+            if( !(pointer & F_EXTENDS) ) state = FROM_DIAGONAL;
+        }
+    }
+
+    // we hit the first row or column: the leading columns go against gaps
+    while( y>0 )
+    {
+        columnsA.push(-1);
+        columnsB.push(--y);
+    }
+
+    while( x>0 )
+    {
+        columnsA.push(--x);
+        columnsB.push(-1);
+    }
+
+    columnsA.reverse();
+    columnsB.reverse();
+
+    const merge = ( rows:string[][], columns:number[] ) => rows.map( row => columns.map( column => column<0 ? "-" : row[column] ) );
+
+    return {
+        members: [ ...a.members, ...b.members ],
+        rows: [ ...merge(a.rows, columnsA), ...merge(b.rows, columnsB) ],
+    };
+}
+
+/**
+ * Per column, the fraction of the rows having its most common residue
+ */
+function columnConservation( rows:string[] ) {
+    const length = rows[0]?.length ?? 0;
+    const conservation = new Array<number>(length);
+    const counts = new Map<string, number>();
+
+    for (let column = 0; column < length; column++) {
+        counts.clear();
+        let most = 0;
+
+        for (const row of rows) {
+            const residue = row[column].toUpperCase();
+            if( residue=="-" ) continue;
+
+            const count = ( counts.get(residue) ?? 0 ) + 1;
+            counts.set(residue, count);
+            most = Math.max(most, count);
+        }
+
+        conservation[column] = most / rows.length;
+    }
+
+    return conservation;
+}
+
+/**
+ * Progressive multiple sequence alignment, built on the pairwise aligner:
+ * 1. every pair of sequences is aligned end to end (`AlignmentMode.Global`), `1 - identity` being their distance;
+ * 2. a guide tree is grown from those distances (`upgma`);
+ * 3. going up the tree, the profiles of the 2 children of each node are aligned (`alignProfiles`), so the closest sequences are aligned first
+ *    and their gaps are kept ("once a gap, always a gap").
+ *
+ * @link https://en.wikipedia.org/wiki/Multiple_sequence_alignment#Progressive_alignment_construction
+ * @throws AlignmentError with less than 2 sequences, bad scoring or profiles too long, SequenceParseError for a sequence without residues
+ */
+export function alignMultiple( sequences:Sequence[], options:MultipleAlignmentOptions = {} ) :MultipleAlignmentResult {
+    if( sequences.length < 2 ) throw new AlignmentError(`A multiple alignment needs at least 2 sequences, there ${ sequences.length==1 ? "is 1" : `are ${ sequences.length }` }`);
+
+    const alphabet = options.alphabet ?? detectAlphabet( ...sequences.map( s => s.sequence ) );
+    const scoring:ScoringScheme = { ...( options.scoring ?? ( alphabet==Alphabet.Protein ? ScoringPresets.blastp : ScoringPresets.default ) ) };
+    const maxCells = options.maxCells ?? 2**28;
+    const n = sequences.length;
+
+    // progress: each pairwise alignment and each profile alignment is one unit of work
+    const units = n * (n - 1) / 2 + (n - 1);
+    let unit = 0;
+    const progress = ( fraction:number ) => options.onProgress?.( (unit + fraction) / units );
+
+    //
+    // distances
+    //
+    const distances = sequences.map( () => new Array<number>(n).fill(0) );
+    const fasta = sequences.map( (sequence, i) => formatFasta({ name: sequence.name || `>sequence${ i + 1 }`, sequence: sequence.sequence }) );
+
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            const { stats } = new Aligner(fasta[i], fasta[j], { alphabet, scoring, mode: AlignmentMode.Global, bothStrands: false, onProgress: progress });
+            distances[i][j] = distances[j][i] = 1 - stats.alignmentMatchPercent;
+            unit++;
+        }
+    }
+
+    const tree = upgma(distances);
+
+    //
+    // residues as small codes, and their scores
+    //
+    const codes = new Int16Array(128).fill(-1);
+    let K = 0;
+
+    for (const { sequence } of sequences) {
+        const upper = sequence.toUpperCase();
+
+        for (let i = 0; i < upper.length; i++) {
+            const code = upper.charCodeAt(i) & 127;
+            if( codes[code] < 0 ) codes[code] = K++;
+            codes[ String.fromCharCode(code).toLowerCase().charCodeAt(0) ] = codes[code];
+        }
+    }
+
+    const table = createScoreTable(scoring, alphabet);
+    const pairScores = new Float64Array( K * K );
+    for (let a = 0; a < 128; a++) {
+        for (let b = 0; b < 128; b++) {
+            if( codes[a]>=0 && codes[b]>=0 ) pairScores[ codes[a] * K + codes[b] ] = table[ (a << 7) | b ];
+        }
+    }
+
+    //
+    // profiles, from the leaves up
+    //
+    const gapExtend = scoring.gapExtend ?? scoring.gap;
+
+    const profileOf = ( node:GuideTree ) :Profile => {
+        if( !node.children ) return { members: [ node.sequence! ], rows: [ [ ...sequences[node.sequence!].sequence ] ] };
+
+        const left = profileOf(node.children[0]);
+        const right = profileOf(node.children[1]);
+        const merged = alignProfiles(left, right, codes, K, pairScores, scoring.gap, gapExtend, maxCells);
+
+        unit++;
+        progress(0);
+
+        return merged;
+    }
+
+    const profile = profileOf(tree);
+    const rows = new Array<string>(n);
+    profile.members.forEach( (sequence, i) => rows[sequence] = profile.rows[i].join("") );
+
+    return {
+        sequences,
+        rows,
+        conservation: columnConservation(rows),
+        distances,
+        tree,
+        order: leafOrder(tree),
+        alphabet,
+        scoring,
+    };
+}
@@ -0,0 +1,62 @@
+import { Color } from "three";
+
+/**
+ * Matching residues of the best alignment
+ */
+export const MatchColor = 0x06d6a0;
+
+/**
+ * Matching residues of the 2nd, 3rd... hits (the best one uses the regular match colour)
+ */
+export const HitColors = [ 0x4cc9f0, 0xf72585, 0xb5e48c, 0xff9f1c, 0x9d4edd, 0x4361ee, 0xf15bb5, 0x00bbf9, 0xfee440 ];
+
+/**
+ * Colour of the matching residues of a hit (index in `AlignmentResult.hits`)
+ */
+export const hitColor = ( hitIndex:number ) => hitIndex==0 ? MatchColor : HitColors[ (hitIndex-1) % HitColors.length ];
+
+/**
+ * Low to high scores
+ */
+const scoreGradient = [ new Color(0x0b132b), new Color(0x1c7293), new Color(0x06d6a0), new Color(0xffd166) ];
+
+/**
+ * Colour of a score normalized to 0 (lowest) to 1 (highest), written to `target`
+ */
+export function scoreColor( t:number, target:Color ) {
+    const scaled = Math.min( Math.max(t, 0), 1 ) * ( scoreGradient.length - 1 );
+    const i = Math.min( Math.floor(scaled), scoreGradient.length - 2 );
+    return target.lerpColors( scoreGradient[i], scoreGradient[i+1], scaled - i );
+}
+
+/**
+ * Unaligned stretches of DNA seen from afar (see `StrandLevels`): AT rich to GC rich, as dim as the residues they stand for
+ */
+const gcGradient = [ new Color(0x1d3557), new Color(0x8d6a2f) ];
+
+/**
+ * Colour of a GC content (0 to 1), written to `target`
+ */
+export function gcColor( fraction:number, target:Color ) {
+    return target.lerpColors( gcGradient[0], gcGradient[1], Math.min( Math.max(fraction, 0), 1 ) );
+}
+
+/**
+ * Annotations by feature type, the rest get `OtherFeatureColor`
+ */
+export const FeatureColors:Record<string, number> = {
+    gene: 0x90be6d,
+    mRNA: 0x43aa8b,
+    CDS: 0xf9c74f,
+    exon: 0xf8961e,
+    intron: 0x577590,
+    tRNA: 0xf94144,
+    rRNA: 0xf3722c,
+    misc_feature: 0x9d4edd,
+    repeat_region: 0x4d908e,
+    region: 0x4cc9f0,
+};
+
+export const OtherFeatureColor = 0xadb5bd;
+
+export const featureColor = ( type:string ) => FeatureColors[type] ?? OtherFeatureColor;
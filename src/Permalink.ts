@@ -0,0 +1,133 @@
+import type { AlignmentMode } from "./Aligner";
+import type { Alphabet } from "./Alphabet";
+import type { Feature } from "./Annotations";
+import type { ScoringScheme } from "./Scoring";
+import type { SeedParameters } from "./SeedAndExtend";
+import { SubstitutionMatrices, type SubstitutionMatrix } from "./SubstitutionMatrix";
+
+/**
+ * Where the camera is and what it looks at
+ */
+export type CameraPose = {
+    position:[number, number, number]
+    target:[number, number, number]
+}
+
+/**
+ * Everything needed to show an alignment again the way someone was looking at it.
+ */
+export type Permalink = {
+    fasta1:string
+    fasta2:string
+    scoring:ScoringScheme
+    mode:AlignmentMode
+    /** Undefined: detected from the sequences */
+    alphabet?:Alphabet
+    bothStrands:boolean
+    maxHits:number
+    /** Seed-and-extend search (local mode), undefined: exact search */
+    heuristic?:Partial<SeedParameters>
+    /** A `DisplayShape` of the strands */
+    shape:number
+    camera?:CameraPose
+    /** Annotations drawn around each strand */
+    features1?:Feature[]
+    features2?:Feature[]
+}
+
+/**
+ * The JSON that goes (compressed) in the hash. Built in matrices go by name, loaded ones whole.
+ */
+type PermalinkDocument = Omit<Permalink, "scoring"> & {
+    version:number
+    scoring:Omit<ScoringScheme, "matrix"> & { matrix?:string | SubstitutionMatrix }
+}
+
+/**
+ * Bump when `PermalinkDocument` changes in a way old links can't be read with.
+ */
+const PERMALINK_VERSION = 1;
+
+/**
+ * `#view=...` in the URL
+ */
+const hashKey = "view";
+
+/**
+ * The link to this page showing `permalink`
+ */
+export async function createPermalink( permalink:Permalink, url = location.href ) {
+    const { matrix } = permalink.scoring;
+    const document:PermalinkDocument = {
+        ...permalink,
+        version: PERMALINK_VERSION,
+        scoring: { ...permalink.scoring, matrix: matrix && SubstitutionMatrices[matrix.name]===matrix ? matrix.name : matrix },
+    };
+
+    const compressed = await transform( new TextEncoder().encode( JSON.stringify(document) ), new CompressionStream("deflate-raw") );
+    const link = new URL(url);
+    link.hash = `${ hashKey }=${ toBase64Url(compressed) }`;
+
+    return link.href;
+}
+
+/**
+ * Reads the permalink in a URL hash (like `location.hash`).
+ * @returns undefined if the hash doesn't have one
+ * @throws Error if it has one that can't be read (cut short, or from a newer version)
+ */
+export async function readPermalink( hash:string ) :Promise<Permalink | undefined> {
+    const data = new URLSearchParams( hash.replace(/^#/, "") ).get(hashKey);
+    if( !data ) return;
+
+    let document:PermalinkDocument;
+
+    try
+    {
+        const json = await transform( fromBase64Url(data), new DecompressionStream("deflate-raw") );
+        document = JSON.parse( new TextDecoder().decode(json) );
+    }
+    catch
+    {
+        throw new Error("The link is damaged (cut short?), its alignment can't be restored");
+    }
+
+    const { version, scoring: { matrix, ...scoring }, ...permalink } = document;
+
+    if( version!==PERMALINK_VERSION )
+    {
+        throw new Error(`The link is from version ${ version } of this page, this one reads version ${ PERMALINK_VERSION }`);
+    }
+
+    return {
+        ...permalink,
+        scoring: { ...scoring, matrix: typeof matrix=="string" ? SubstitutionMatrices[matrix] : matrix },
+    };
+}
+
+/**
+ * Runs the bytes through a compression or decompression stream
+ */
+async function transform( bytes:Uint8Array, stream:CompressionStream | DecompressionStream ) {
+    const output = new Blob([ bytes ]).stream().pipeThrough(stream);
+    return new Uint8Array( await new Response(output).arrayBuffer() );
+}
+
+/**
+ * Base64 with the URL safe alphabet and no padding
+ */
+function toBase64Url( bytes:Uint8Array ) {
+    let binary = "";
+
+    // in chunks: spreading a big array into the arguments overflows the stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode( ...bytes.subarray(i, i + 0x8000) );
+    }
+
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url( text:string ) {
+    const binary = atob( text.replace(/-/g, "+").replace(/_/g, "/") );
+    return Uint8Array.from( binary, char => char.charCodeAt(0) );
+}
@@ -0,0 +1,137 @@
+import { BufferAttribute, BufferGeometry, Color, DoubleSide, Line, LineBasicMaterial, Mesh, MeshBasicMaterial, Object3D, PlaneGeometry, Vector2 } from "three";
+import { alignedSequence2, StrandSense, type AlignmentResult } from "./Aligner";
+import type { ScoreMatrixPreview } from "./DynamicProgramming";
+import { scoreColor } from "./Palette";
+
+/**
+ * What's under the pointer
+ */
+export type ScoreCell = {
+    /** Column and row of the matrix (0 is the border) */
+    x:number
+    y:number
+    score:number
+    /** Residues of the cell, "-" on the border */
+    residue1:string
+    residue2:string
+    /** 1-based positions of the residues in the sequences as given */
+    position1:number
+    position2:number
+}
+
+/**
+ * The score matrix as a height field (sequence 1 across, sequence 2 down, like the DP table is usually drawn) with the traceback of the best hit on top.
+ * Built from `AlignmentResult.scoreMatrix`, so big matrices come already downsampled: each vertex is the best score of its block of cells.
+ */
+export class ScoreTerrain extends Object3D {
+    private surface:Mesh<PlaneGeometry, MeshBasicMaterial>;
+    private path:Line<BufferGeometry, LineBasicMaterial>;
+    private preview:ScoreMatrixPreview;
+    private segmentsX:number;
+    private segmentsY:number;
+    private sequence2:string;
+
+    constructor( readonly result:AlignmentResult, readonly height = 1.2 ) {
+        super();
+
+        const preview = this.preview = result.scoreMatrix!;
+        const W = result.sequence1.sequence.length + 1;
+        const H = result.sequence2.sequence.length + 1;
+        const longest = Math.max(W, H);
+        const sizeX = 4 * W / longest;
+        const sizeY = 4 * H / longest;
+
+        this.sequence2 = alignedSequence2(result);
+        this.segmentsX = Math.max( 1, preview.columns - 1 );
+        this.segmentsY = Math.max( 1, preview.rows - 1 );
+
+        //
+        // surface: one vertex per cell of the preview
+        //
+        const geometry = new PlaneGeometry( sizeX, sizeY, this.segmentsX, this.segmentsY );
+        const positions = geometry.attributes.position;
+        const colors = new Float32Array( positions.count * 3 );
+        const color = new Color();
+
+        for (let i = 0; i < positions.count; i++) {
+            const column = Math.min( i % (this.segmentsX + 1), preview.columns - 1 );
+            const row = Math.min( Math.floor( i / (this.segmentsX + 1) ), preview.rows - 1 );
+            const t = this.normalized( preview.scores[ row * preview.columns + column ] );
+
+            positions.setZ( i, t * height );
+            scoreColor( t, color ).toArray( colors, i * 3 );
+        }
+
+        geometry.setAttribute('color', new BufferAttribute(colors, 3));
+
+        this.surface = new Mesh( geometry, new MeshBasicMaterial({ vertexColors: true, side: DoubleSide, transparent: true, opacity: .9 }) );
+        this.add( this.surface );
+
+        //
+        // traceback: a line over the cells of the best hit, bright enough for the bloom to make it glow
+        //
+        const cellPosition = ( x:number, y:number ) => {
+            const column = Math.min( x / preview.stepX, preview.columns - 1 );
+            const row = Math.min( y / preview.stepY, preview.rows - 1 );
+            const block = Math.floor(row) * preview.columns + Math.floor(column);
+
+            return [
+                -sizeX / 2 + ( column / this.segmentsX ) * sizeX,
+                sizeY / 2 - ( row / this.segmentsY ) * sizeY,
+                this.normalized( preview.scores[block] ) * height + .03,
+            ];
+        }
+
+        const pathPositions = new Float32Array( result.alignment.flatMap( residue => cellPosition( residue.iA + 1, residue.iB + 1 ) ) );
+        const pathGeometry = new BufferGeometry();
+        pathGeometry.setAttribute('position', new BufferAttribute(pathPositions, 3));
+
+        this.path = new Line( pathGeometry, new LineBasicMaterial({ color: new Color(4, 3, 1), toneMapped: false }) );
+        this.add( this.path );
+    }
+
+    /**
+     * Score to 0 (lowest of the matrix) to 1 (highest)
+     */
+    private normalized( score:number ) {
+        const { min, max } = this.preview;
+        return max > min && Number.isFinite(score) ? ( score - min ) / ( max - min ) : 0;
+    }
+
+    /**
+     * The surface, for raycasting
+     */
+    get mesh() {
+        return this.surface;
+    }
+
+    /**
+     * The cell of the preview at the `uv` of the surface (as given by a raycast hit)
+     */
+    cellAt( uv:Vector2 ) :ScoreCell {
+        const { preview, result } = this;
+        const column = Math.min( Math.round( uv.x * this.segmentsX ), preview.columns - 1 );
+        const row = Math.min( Math.round( (1 - uv.y) * this.segmentsY ), preview.rows - 1 );
+        const i = row * preview.columns + column;
+        const x = preview.cellX[i];
+        const y = preview.cellY[i];
+        const length2 = result.sequence2.sequence.length;
+
+        return {
+            x,
+            y,
+            score: preview.scores[i],
+            residue1: x > 0 ? result.sequence1.sequence[x-1] : "-",
+            residue2: y > 0 ? this.sequence2[y-1] : "-",
+            position1: x,
+            position2: result.stats.sequence2.strand==StrandSense.Minus ? length2 + 1 - y : y,
+        };
+    }
+
+    dispose() {
+        this.surface.geometry.dispose();
+        this.surface.material.dispose();
+        this.path.geometry.dispose();
+        this.path.material.dispose();
+    }
+}
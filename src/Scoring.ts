@@ -0,0 +1,79 @@
+import { SubstitutionMatrices, type SubstitutionMatrix } from "./SubstitutionMatrix";
+
+/**
+ * How the Aligner rewards and penalizes each step of an alignment.
+ */
+export type ScoringScheme = {
+    /** Score added when both residues are the same */
+    match:number
+    /** Score added when the residues differ (usually negative) */
+    mismatch:number
+    /** Penalty subtracted for every gap position (a positive number). With `gapExtend` it is only paid by the first position of a gap (gap open) */
+    gap:number
+    /** 
+     * If set, gaps are affine: a gap of length `k` costs `gap + (k-1) * gapExtend`, so one long indel is cheaper than many short ones.
+     * If not set, gaps are linear: `k * gap`
+     */
+    gapExtend?:number
+    /** If set, residue pairs are scored with this matrix and `match`/`mismatch` are not used */
+    matrix?:SubstitutionMatrix
+}
+
+/**
+ * Well known scoring setups, so results can be compared against other tools.
+ */
+export const ScoringPresets = {
+    /** The original hardcoded values of this app */
+    default: { match: 1, mismatch: -1, gap: 1 },
+
+    /**
+     * EMBOSS `water` defaults (EDNAFULL matrix, gap open 10, gap extend 0.5)
+     * @link https://www.ebi.ac.uk/jdispatcher/psa/emboss_water
+     */
+    embossWater: { match: 5, mismatch: -4, gap: 10, gapExtend: .5, matrix: SubstitutionMatrices.EDNAFULL },
+
+    /**
+     * NCBI `blastn -task blastn` defaults (reward 2, penalty -3, gap existence 5, gap extension 2)
+     * @link https://www.ncbi.nlm.nih.gov/books/NBK279684/
+     */
+    blastn: { match: 2, mismatch: -3, gap: 7, gapExtend: 2 },
+
+    /** NCBI `megablast` defaults (reward 1, penalty -2, linear gaps of 2.5) */
+    megablast: { match: 1, mismatch: -2, gap: 2.5 },
+
+    //
+    // proteins... match/mismatch are the matrix's average identity/mismatch, just for display
+    //
+
+    /**
+     * NCBI `blastp` defaults (BLOSUM62, gap existence 11, gap extension 1)
+     * @link https://www.ncbi.nlm.nih.gov/books/NBK279684/
+     */
+    blastp: { match: 6, mismatch: -1, gap: 12, gapExtend: 1, matrix: SubstitutionMatrices.BLOSUM62 },
+
+    /** NCBI `blastp` with BLOSUM45 (gap existence 15, gap extension 2), for more divergent proteins */
+    blastpBlosum45: { match: 7, mismatch: -1, gap: 17, gapExtend: 2, matrix: SubstitutionMatrices.BLOSUM45 },
+
+    /** EMBOSS `water` protein defaults (EBLOSUM62, gap open 10, gap extend 0.5) */
+    embossWaterProtein: { match: 6, mismatch: -1, gap: 10, gapExtend: .5, matrix: SubstitutionMatrices.BLOSUM62 },
+
+    /** PAM250 with the EMBOSS gap defaults, for distant homologs */
+    pam250: { match: 6, mismatch: -2, gap: 10, gapExtend: .5, matrix: SubstitutionMatrices.PAM250 },
+
+} satisfies Record<string, ScoringScheme>;
+
+export type ScoringPresetName = keyof typeof ScoringPresets;
+
+/**
+ * Returns the name of the preset with the exact same values, if any.
+ */
+export function findScoringPreset( scheme:ScoringScheme ) : ScoringPresetName | undefined {
+    return (Object.keys(ScoringPresets) as ScoringPresetName[]).find( name => {
+        const preset:ScoringScheme = ScoringPresets[name];
+        return preset.match==scheme.match 
+            && preset.mismatch==scheme.mismatch 
+            && preset.gap==scheme.gap 
+            && preset.gapExtend==scheme.gapExtend
+            && preset.matrix?.name==scheme.matrix?.name;
+    });
+}
@@ -0,0 +1,225 @@
+import { Alphabet } from "./Alphabet";
+
+/**
+ * How seed-and-extend looks for alignments (see `findSeedChains`). The stats of an alignment found this way list them (`AlignmentStats.heuristic`).
+ */
+export type SeedParameters = {
+    /** Length of the words (k-mers) that must match exactly for a search to start there */
+    wordSize:number
+    /** Cells searched on each side of the diagonals of a chain (banded Smith–Waterman) */
+    bandWidth:number
+    /** Seeds a chain needs to be extended (2: BLAST's two-hit method) */
+    minSeeds:number
+    /** Farthest apart (in residues) 2 seeds of a chain may be */
+    maxSeedGap:number
+    /** Words found more often than this in the indexed sequence are no seeds (repeats, low complexity) */
+    maxWordOccurrences:number
+    /** Chains extended at most, the ones with more seeds first */
+    maxChains:number
+}
+
+/**
+ * Defaults close to `blastn` (word 11) and `blastp` (word 3, exact words instead of BLAST's neighbourhood words)
+ */
+export function defaultSeedParameters( alphabet:Alphabet ) :SeedParameters {
+    return alphabet==Alphabet.Protein
+        ? { wordSize: 3, bandWidth: 32, minSeeds: 2, maxSeedGap: 40, maxWordOccurrences: 256, maxChains: 50 }
+        : { wordSize: 11, bandWidth: 32, minSeeds: 2, maxSeedGap: 64, maxWordOccurrences: 128, maxChains: 50 };
+}
+
+/**
+ * Longest words that still fit 30 bits: 2 bits per nucleotide, 5 per amino acid
+ */
+export const maxWordSize:Record<Alphabet, number> = {
+    [Alphabet.Nucleotide]: 15,
+    [Alphabet.Protein]: 6,
+};
+
+/**
+ * Code of each residue in a word (by char code, case ignored), -1 for the ones that break words (ambiguity codes, stops...)
+ */
+const residueCodes:Record<Alphabet, Int8Array> = {
+    [Alphabet.Nucleotide]: new Int8Array(128).fill(-1),
+    [Alphabet.Protein]: new Int8Array(128).fill(-1),
+};
+
+[ ..."ACGT" ].forEach( (residue, code) => {
+    residueCodes[Alphabet.Nucleotide][ residue.charCodeAt(0) ] = code;
+    residueCodes[Alphabet.Nucleotide][ residue.toLowerCase().charCodeAt(0) ] = code;
+});
+residueCodes[Alphabet.Nucleotide][ 85 ] = residueCodes[Alphabet.Nucleotide][ 117 ] = 3; // U as T
+
+[ ..."ACDEFGHIKLMNPQRSTVWY" ].forEach( (residue, code) => {
+    residueCodes[Alphabet.Protein][ residue.charCodeAt(0) ] = code;
+    residueCodes[Alphabet.Protein][ residue.toLowerCase().charCodeAt(0) ] = code;
+});
+
+/**
+ * The word starting at each position of a sequence as a number, -1 where the word has a residue that breaks words (or runs past the end)
+ */
+function wordCodes( sequence:string, wordSize:number, alphabet:Alphabet ) {
+    const codes = new Int32Array(sequence.length).fill(-1);
+    const table = residueCodes[alphabet];
+    const bits = alphabet==Alphabet.Protein ? 5 : 2;
+    const mask = 2**(bits * wordSize) - 1;
+
+    let word = 0;
+    let valid = 0; // residues in a row that can be in a word
+
+    for (let i = 0; i < sequence.length; i++) {
+        const code = table[ sequence.charCodeAt(i) & 127 ];
+
+        if( code<0 )
+        {
+            valid = 0;
+            continue;
+        }
+
+        word = ( word * (1 << bits) + code ) % (mask + 1);
+        valid++;
+
+        if( valid>=wordSize ) codes[ i - wordSize + 1 ] = word;
+    }
+
+    return codes;
+}
+
+/**
+ * Where each word is in a sequence: a hash table of chained positions (`head` of a bucket, then `next` of each position), so indexing a chromosome costs 2 ints per residue.
+ */
+function indexWords( codes:Int32Array ) {
+    const tableBits = Math.min( 24, Math.max( 10, Math.ceil( Math.log2(codes.length + 1) ) ) );
+    const head = new Int32Array( 1 << tableBits ).fill(-1);
+    const next = new Int32Array( codes.length ).fill(-1);
+    const bucket = ( code:number ) => Math.imul(code, 0x9e3779b1) >>> (32 - tableBits);
+
+    // backwards, so each bucket lists its positions in order
+    for (let i = codes.length - 1; i >= 0; i--) {
+        if( codes[i]<0 ) continue;
+        const b = bucket(codes[i]);
+        next[i] = head[b];
+        head[b] = i;
+    }
+
+    /** Positions of a word, undefined if it is there more than `max` times */
+    const positions = ( code:number, max:number ) => {
+        const found:number[] = [];
+
+        for (let i = head[ bucket(code) ]; i >= 0; i = next[i]) {
+            if( codes[i]!=code ) continue;
+            if( found.length>=max ) return;
+            found.push(i);
+        }
+
+        return found;
+    }
+
+    return positions;
+}
+
+/**
+ * A region of the matrix worth aligning: rows (residues of sequence 2) and diagonals (`x - y`, residue of sequence 1 minus residue of sequence 2) around chained seeds.
+ * 0-based, ends excluded, the band already widened by `bandWidth`.
+ */
+export type SeedChain = {
+    fromY:number
+    toY:number
+    fromDiagonal:number
+    toDiagonal:number
+    seeds:number
+}
+
+/**
+ * The seed and chain steps of seed-and-extend:
+ * 1. the words of the longer sequence are indexed;
+ * 2. every word of the other sequence found in the index is a seed: a pair of identical words, on the diagonal `x - y` of the matrix;
+ * 3. seeds on the same diagonal at most `maxSeedGap` apart are chained, chains with less than `minSeeds` are dropped (lone seeds are mostly chance),
+ *    and chains on nearby diagonals (an indel apart) that follow each other are merged.
+ *
+ * What's left are the bands to align (best first), see `AlignmentMatrix.fillBand`.
+ * @link https://doi.org/10.1093/nar/25.17.3389
+ */
+export function findSeedChains( sequence1:string, sequence2:string, parameters:SeedParameters, alphabet:Alphabet ) :SeedChain[] {
+    const { wordSize, bandWidth, minSeeds, maxSeedGap, maxWordOccurrences, maxChains } = parameters;
+
+    //
+    // seeds, as (diagonal, y) pairs
+    //
+    const indexFirst = sequence1.length >= sequence2.length;
+    const indexed = wordCodes( indexFirst ? sequence1 : sequence2, wordSize, alphabet );
+    const query = wordCodes( indexFirst ? sequence2 : sequence1, wordSize, alphabet );
+    const positions = indexWords(indexed);
+
+    const diagonals:number[] = [];
+    const ys:number[] = [];
+
+    for (let q = 0; q < query.length; q++) {
+        if( query[q]<0 ) continue;
+
+        for (const p of positions(query[q], maxWordOccurrences) ?? []) {
+            const [ x, y ] = indexFirst ? [ p, q ] : [ q, p ];
+            diagonals.push( x - y );
+            ys.push(y);
+        }
+    }
+
+    const order = diagonals.map( (_, i) => i ).sort( (a, b) => diagonals[a] - diagonals[b] || ys[a] - ys[b] );
+
+    //
+    // chains along each diagonal
+    //
+    type Chain = { diagonal:number, fromY:number, toY:number, seeds:number };
+    const chains:Chain[] = [];
+    let chain:Chain | undefined;
+
+    for (const i of order) {
+        const diagonal = diagonals[i];
+        const y = ys[i];
+
+        if( chain && chain.diagonal==diagonal && y - chain.toY <= maxSeedGap )
+        {
+            chain.toY = y + wordSize;
+            chain.seeds++;
+            continue;
+        }
+
+        if( chain && chain.seeds>=minSeeds ) chains.push(chain);
+        chain = { diagonal, fromY: y, toY: y + wordSize, seeds: 1 };
+    }
+
+    if( chain && chain.seeds>=minSeeds ) chains.push(chain);
+
+    //
+    // chains an indel apart go in the same band
+    //
+    chains.sort( (a, b) => a.fromY - b.fromY );
+
+    const bands:SeedChain[] = [];
+
+    for (const { diagonal, fromY, toY, seeds } of chains) {
+        const band = bands.find( band => diagonal >= band.fromDiagonal - bandWidth && diagonal <= band.toDiagonal + bandWidth && fromY - band.toY <= maxSeedGap );
+
+        if( band )
+        {
+            band.fromDiagonal = Math.min(band.fromDiagonal, diagonal);
+            band.toDiagonal = Math.max(band.toDiagonal, diagonal);
+            band.toY = Math.max(band.toY, toY);
+            band.seeds += seeds;
+        }
+        else
+        {
+            bands.push({ fromY, toY, fromDiagonal: diagonal, toDiagonal: diagonal, seeds });
+        }
+    }
+
+    return bands
+            .sort( (a, b) => b.seeds - a.seeds )
+            .slice( 0, maxChains )
+            .map( band => ({
+                fromY: Math.max( 0, band.fromY - bandWidth ),
+                toY: Math.min( sequence2.length, band.toY + bandWidth ),
+                fromDiagonal: band.fromDiagonal - bandWidth,
+                toDiagonal: band.toDiagonal + bandWidth,
+                seeds: band.seeds,
+            }));
+}
@@ -0,0 +1,318 @@
+import type { Sequence } from "./Aligner";
+import { featureTableReader } from "./Annotations";
+import { formatFasta, illegalCharacter, nonResidues, parseFasta, SequenceParseError, type FastaRecord } from "./Fasta";
+
+/**
+ * Text formats sequences come in
+ */
+export enum SequenceFormat {
+    Fasta = "FASTA",
+    GenBank = "GenBank",
+    Embl = "EMBL",
+    Fastq = "FASTQ",
+    /** Just the residues: no header, whitespace and position numbers ignored */
+    Raw = "raw",
+}
+
+/**
+ * Guesses the format of a text from its first line that isn't blank.
+ */
+export function detectFormat( text:string ) :SequenceFormat {
+    const first = text.match(/^.*\S.*$/m)?.[0] ?? "";
+
+    if( first.startsWith(">") || first.startsWith(";") ) return SequenceFormat.Fasta;
+    if( /^LOCUS\s/.test(first) ) return SequenceFormat.GenBank;
+    if( /^ID {3}/.test(first) ) return SequenceFormat.Embl;
+    if( first.startsWith("@") ) return SequenceFormat.Fastq;
+
+    return SequenceFormat.Raw;
+}
+
+/**
+ * Parses every record of a text in any of the `SequenceFormat`s, into the same records FASTA gives. Names are FASTA like headers (`>id description`).
+ * @param format detected if not given
+ * @throws SequenceParseError at the first thing that doesn't fit the format
+ */
+export function parseSequences( text:string, format = detectFormat(text) ) :FastaRecord[] {
+    switch( format )
+    {
+        case SequenceFormat.Fasta: return parseFasta(text);
+        case SequenceFormat.GenBank: return parseGenBank(text);
+        case SequenceFormat.Embl: return parseEmbl(text);
+        case SequenceFormat.Fastq: return parseFastq(text);
+        case SequenceFormat.Raw: return parseRawSequence(text);
+    }
+}
+
+/**
+ * A record named after its accession and description
+ */
+function namedRecord( id:string, description:string, line:number ) :FastaRecord {
+    const header = [ id, description ].filter(Boolean).join(" ");
+    return { name: header && ">" + header, id, description, sequence: "", line };
+}
+
+/**
+ * Residues of a sequence line of a flat file: `line.slice(from, to)` without the spaces, stops and gaps
+ * @throws SequenceParseError at anything that can't be a residue
+ */
+function flatFileResidues( line:string, from:number, to:number, lineNumber:number, name:string ) {
+    const residues = line.slice(from, to);
+    const illegal = residues.search(illegalCharacter);
+
+    if( illegal>=0 ) throw new SequenceParseError(`Illegal character "${ residues[illegal] }" in the sequence of ${ name }`, lineNumber, from + illegal + 1);
+
+    return residues.replace(nonResidues, "");
+}
+
+/**
+ * Parses the records of a GenBank flat file: keywords at column 1, their values at column 13, indented lines continue the keyword above.
+ * Named after VERSION (else ACCESSION, else the LOCUS name) and DEFINITION, residues from the ORIGIN block, features from the FEATURES table.
+ * @link https://www.ncbi.nlm.nih.gov/genbank/samplerecord/
+ */
+export function parseGenBank( text:string ) :FastaRecord[] {
+    const records:FastaRecord[] = [];
+    const lines = text.split(/\r?\n/);
+
+    let entry:{ line:number, locus:string, accession?:string, version?:string, definition:string[], sequence:string[], features:ReturnType<typeof featureTableReader> } | undefined;
+    let keyword = "";
+
+    const close = () => {
+        if( entry )
+        {
+            const record = namedRecord( entry.version ?? entry.accession ?? entry.locus, entry.definition.join(" "), entry.line );
+            record.sequence = entry.sequence.join("");
+            record.features = entry.features.features();
+            records.push(record);
+        }
+        entry = undefined;
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if( !line.trim() ) continue;
+
+        if( line.startsWith("//") )
+        {
+            close();
+            continue;
+        }
+
+        const continues = /^\s/.test(line);
+        if( !continues ) keyword = line.split(/\s/)[0];
+        const value = line.slice(12).trim();
+
+        if( keyword=="LOCUS" )
+        {
+            close();
+            entry = { line: i + 1, locus: value.split(/\s+/)[0], definition: [], sequence: [], features: featureTableReader() };
+            continue;
+        }
+
+        if( !entry ) throw new SequenceParseError(`Expected a LOCUS line to start a GenBank record, found "${ line.trim() }"`, i + 1, 1);
+
+        switch( keyword )
+        {
+            case "DEFINITION":
+                entry.definition.push(value);
+                break;
+
+            case "ACCESSION":
+                if( !continues ) entry.accession = value.split(/\s+/)[0];
+                break;
+
+            case "VERSION":
+                if( !continues ) entry.version = value.split(/\s+/)[0];
+                break;
+
+            case "FEATURES":
+                if( continues ) entry.features.addLine(line);
+                break;
+
+            case "ORIGIN":
+                // `        61 tgtgtaacca gctgtgtaag...`: position, then the residues in blocks of 10
+                if( continues ) entry.sequence.push( flatFileResidues(line, line.match(/^\s*\d*/)![0].length, line.length, i + 1, entry.version ?? entry.locus) );
+                break;
+        }
+    }
+
+    close();
+
+    return records;
+}
+
+/**
+ * Parses the records of an EMBL flat file: 2 letter line codes, sequence lines (after `SQ`) have no code and end with a position.
+ * Named after the accession and sequence version of the ID line and the DE lines, features from the FT lines.
+ * @link https://ftp.ebi.ac.uk/pub/databases/embl/doc/usrman.txt
+ */
+export function parseEmbl( text:string ) :FastaRecord[] {
+    const records:FastaRecord[] = [];
+    const lines = text.split(/\r?\n/);
+
+    let entry:{ line:number, id:string, accession?:string, definition:string[], sequence:string[], features:ReturnType<typeof featureTableReader> } | undefined;
+    let inSequence = false;
+
+    const close = () => {
+        if( entry )
+        {
+            const record = namedRecord( entry.id || entry.accession || "", entry.definition.join(" "), entry.line );
+            record.sequence = entry.sequence.join("");
+            record.features = entry.features.features();
+            records.push(record);
+        }
+        entry = undefined;
+        inSequence = false;
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if( !line.trim() ) continue;
+
+        const code = line.slice(0, 2);
+        const value = line.slice(5).trim();
+
+        if( code=="//" )
+        {
+            close();
+            continue;
+        }
+
+        if( code=="ID" )
+        {
+            close();
+            // `ID   X56734; SV 1; linear; mRNA; ...` (older files: `ID   X56734 standard; ...`)
+            const accession = value.split(/[;\s]/)[0];
+            const version = value.match(/;\s*SV\s+(\d+)/)?.[1];
+            entry = { line: i + 1, id: version ? `${ accession }.${ version }` : accession, definition: [], sequence: [], features: featureTableReader() };
+            continue;
+        }
+
+        if( !entry ) throw new SequenceParseError(`Expected an ID line to start an EMBL record, found "${ line.trim() }"`, i + 1, 1);
+
+        if( inSequence )
+        {
+            // `     aaacaaacca aatatggatt ...        60`
+            entry.sequence.push( flatFileResidues(line, 0, line.search(/\d*\s*$/), i + 1, entry.id) );
+            continue;
+        }
+
+        switch( code )
+        {
+            case "AC":
+                entry.accession ??= value.split(/[;\s]/)[0];
+                break;
+
+            case "DE":
+                entry.definition.push(value);
+                break;
+
+            case "FT":
+                // same columns as the GenBank feature table once the code is gone
+                entry.features.addLine( "  " + line.slice(2) );
+                break;
+
+            case "SQ":
+                inSequence = true;
+                break;
+        }
+    }
+
+    close();
+
+    return records;
+}
+
+/**
+ * Parses the records of a FASTQ file: `@` header, residues (maybe wrapped), a `+` line, then one quality character per residue.
+ * @link https://en.wikipedia.org/wiki/FASTQ_format
+ */
+export function parseFastq( text:string ) :FastaRecord[] {
+    const records:FastaRecord[] = [];
+    const lines = text.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; ) {
+        if( !lines[i].trim() )
+        {
+            i++;
+            continue;
+        }
+
+        const header = lines[i].trim();
+        if( !header.startsWith("@") ) throw new SequenceParseError(`Expected "@" to start a FASTQ record, found "${ header }"`, i + 1, 1);
+
+        const space = header.search(/\s/);
+        const id = space<0 ? header.slice(1) : header.slice(1, space);
+        const record = namedRecord( id, space<0 ? "" : header.slice(space).trim(), i + 1 );
+        i++;
+
+        const residues:string[] = [];
+
+        for (; i < lines.length && !lines[i].startsWith("+"); i++) {
+            // stops and gaps can't be left out here: their qualities would be of no residue
+            const gap = lines[i].search(/[*-]/);
+            if( gap>=0 ) throw new SequenceParseError(`Illegal character "${ lines[i][gap] }" in the residues of ${ id }`, i + 1, gap + 1);
+
+            residues.push( flatFileResidues(lines[i], 0, lines[i].length, i + 1, id) );
+        }
+
+        if( i>=lines.length ) throw new SequenceParseError(`Record ${ id } has no "+" line before its qualities`, record.line, 1);
+        i++;
+
+        // quality lines may start with "@" or "+" too: they are read until there are as many as residues
+        record.sequence = residues.join("");
+        let quality = "";
+
+        for (; i < lines.length && quality.length < record.sequence.length; i++) {
+            const line = lines[i].trim();
+            const illegal = line.search(/[^!-~]/);
+            if( illegal>=0 ) throw new SequenceParseError(`Illegal quality character "${ line[illegal] }" in ${ id }`, i + 1, lines[i].indexOf(line) + illegal + 1);
+
+            quality += line;
+        }
+
+        if( quality.length!=record.sequence.length ) throw new SequenceParseError(`Record ${ id } has ${ record.sequence.length } residues but ${ quality.length } quality characters`, i, 1);
+
+        record.quality = quality;
+        records.push(record);
+    }
+
+    return records;
+}
+
+/**
+ * A bare sequence as a record without a name. Whitespace, digits (positions, when copied from a flat file), stops and gaps are left out.
+ */
+export function parseRawSequence( text:string ) :FastaRecord[] {
+    const lines = text.split(/\r?\n/);
+    const residues:string[] = [];
+    let first = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        if( !lines[i].trim() ) continue;
+        if( !residues.length ) first = i;
+
+        const illegal = lines[i].search(/[^A-Za-z*\s\d-]/);
+        if( illegal>=0 ) throw new SequenceParseError(`Illegal character "${ lines[i][illegal] }" in the sequence`, i + 1, illegal + 1);
+
+        residues.push( lines[i].replace(/[\s\d*-]+/g, "") );
+    }
+
+    const sequence = residues.join("");
+
+    return sequence ? [ { ...namedRecord("", "", first + 1), sequence } ] : [];
+}
+
+/**
+ * Writes a read back as FASTQ
+ */
+export function formatFastq( record:Sequence & { quality:string } ) {
+    return [ "@" + record.name.replace(/^>/, ""), record.sequence, "+", record.quality ].join("\n");
+}
+
+/**
+ * Writes a record back as text the Aligner reads: FASTQ if it has qualities (so they are kept), FASTA otherwise.
+ */
+export function formatRecord( record:Sequence ) {
+    return record.quality ? formatFastq({ ...record, quality: record.quality }) : formatFasta(record);
+}
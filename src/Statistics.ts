@@ -0,0 +1,181 @@
+import { Alphabet } from "./Alphabet";
+import type { ScoringScheme } from "./Scoring";
+import { createScoreTable } from "./SubstitutionMatrix";
+
+/**
+ * Karlin–Altschul parameters of a scoring scheme: the score of the best local alignment of 2 random sequences
+ * follows an extreme value distribution, so the expected amount of hits scoring at least `S` is `K m n e^(-λS)`.
+ * @link https://doi.org/10.1073/pnas.87.6.2264
+ */
+export type KarlinAltschul = {
+    lambda:number
+    K:number
+    /** Relative entropy of the scores, in nats per aligned pair */
+    H:number
+    /**
+     * Whether the values account for gaps (NCBI's published values for this scheme).
+     * If not, they are the ones of the substitution scores alone: an approximation that makes gapped hits look more significant than they are.
+     */
+    gapped:boolean
+}
+
+/**
+ * How likely it is that an alignment this good shows up by chance.
+ */
+export type Significance = KarlinAltschul & {
+    /** Score in bits, comparable across scoring schemes */
+    bitScore:number
+    /** Expected amount of alignments scoring at least this much between random sequences of the same lengths */
+    eValue:number
+}
+
+/**
+ * Significance measured instead of modelled: how often shuffled sequences score at least as much (see `AlignerOptions.shuffles`)
+ */
+export type EmpiricalSignificance = {
+    /** `(hits + 1) / (shuffles + 1)`: never 0, the resolution is limited by the amount of shuffles */
+    pValue:number
+    shuffles:number
+}
+
+/**
+ * Background frequencies of the residues of random sequences.
+ * Amino acids: Robinson & Robinson (1991), the ones BLAST uses.
+ */
+const backgroundFrequencies: Record<Alphabet, Record<string, number>> = {
+    [Alphabet.Nucleotide]: { A: .25, C: .25, G: .25, T: .25 },
+    [Alphabet.Protein]: {
+        A: .07805, R: .05129, N: .04487, D: .05364, C: .01925, Q: .04264, E: .06295, G: .07377, H: .02199, I: .05142,
+        L: .09019, K: .05744, M: .02243, F: .03856, P: .05203, S: .07120, T: .05841, W: .01330, Y: .03216, V: .06441,
+    },
+};
+
+/**
+ * Gapped values NCBI computed by simulation for its default schemes (`gap` here is BLAST's gap existence + extension)
+ * @link https://www.ncbi.nlm.nih.gov/IEB/ToolBox/CPP_DOC/lxr/source/src/algo/blast/core/blast_stat.c
+ */
+const gappedValues = [
+    { matrix: "BLOSUM62", gap: 12, gapExtend: 1, lambda: .267, K: .041, H: .14 },
+    { match: 2, mismatch: -3, gap: 7, gapExtend: 2, lambda: .625, K: .41, H: .78 },
+];
+
+/**
+ * Karlin–Altschul parameters of the scoring scheme, or `undefined` if random sequences are expected to score positive (then there's no statistics to speak of: long alignments score high no matter what).
+ */
+export function karlinAltschul( scoring:ScoringScheme, alphabet:Alphabet ) :KarlinAltschul | undefined {
+    const gapped = gappedValues.find( values => values.gap==scoring.gap
+                                        && values.gapExtend==scoring.gapExtend
+                                        && ( "matrix" in values
+                                                ? values.matrix==scoring.matrix?.name
+                                                : !scoring.matrix && values.match==scoring.match && values.mismatch==scoring.mismatch ) );
+
+    if( gapped )
+    {
+        return { lambda: gapped.lambda, K: gapped.K, H: gapped.H, gapped: true };
+    }
+
+    return ungappedKarlinAltschul( scoring, alphabet );
+}
+
+/**
+ * Solves λ and K from the distribution of the substitution scores between random residues.
+ * Same method as BLAST's `BlastKarlinLambdaNR`/`BlastKarlinLHtoK`, on scores rounded to a lattice of .1
+ */
+function ungappedKarlinAltschul( scoring:ScoringScheme, alphabet:Alphabet ) :KarlinAltschul | undefined {
+    const table = createScoreTable(scoring, alphabet);
+    const frequencies = backgroundFrequencies[alphabet];
+    const residues = Object.keys(frequencies);
+
+    //
+    // probability of each score, scores as integers so we can convolve them
+    //
+    const scale = 10;
+    const probabilities = new Map<number, number>();
+
+    for (const a of residues) {
+        for (const b of residues) {
+            const score = Math.round( table[ (a.charCodeAt(0) << 7) | b.charCodeAt(0) ] * scale );
+            probabilities.set( score, ( probabilities.get(score) ?? 0 ) + frequencies[a] * frequencies[b] );
+        }
+    }
+
+    const scores = [ ...probabilities.keys() ].filter( score => probabilities.get(score)! > 0 );
+    const expected = scores.reduce( (total, score) => total + score * probabilities.get(score)!, 0 );
+
+    if( expected>=0 || Math.max(...scores)<=0 ) return;
+
+    // work on the lattice of the scores (their gcd), K doesn't depend on the units
+    const gcd = (a:number, b:number) :number => b==0 ? a : gcd(b, a % b);
+    const delta = scores.reduce( (d, score) => gcd(d, Math.abs(score)), 0 );
+    const low = Math.min(...scores) / delta;
+    const high = Math.max(...scores) / delta;
+    const p = new Float64Array( high - low + 1 );
+
+    for (const score of scores) {
+        p[ score/delta - low ] += probabilities.get(score)!;
+    }
+
+    //
+    // λ: the positive root of Σ p(s) e^(λs) = 1
+    //
+    const moment = (lambda:number) => p.reduce( (total, ps, i) => total + ps * Math.exp( lambda * (i + low) ), 0 );
+
+    let hi = .5;
+    while( moment(hi) < 1 ) hi *= 2;
+
+    let lo = 0;
+    for (let i = 0; i < 100; i++) {
+        const mid = (lo + hi) / 2;
+        if( moment(mid) < 1 ) lo = mid; else hi = mid;
+    }
+
+    const lambda = (lo + hi) / 2;
+    const H = lambda * p.reduce( (total, ps, i) => total + ps * (i + low) * Math.exp( lambda * (i + low) ), 0 );
+
+    //
+    // K = λ e^(-2σ) / ( H (1 - e^(-λ)) ), σ = Σk 1/k ( E[e^(λSk); Sk<0] + P(Sk>=0) ), Sk: sum of k random scores
+    //
+    let sigma = 0;
+    let distribution = Float64Array.of(1);
+    let distributionLow = 0;
+
+    for (let k = 1; k <= 100; k++) {
+        const next = new Float64Array( distribution.length + p.length - 1 );
+        for (let i = 0; i < distribution.length; i++) {
+            if( !distribution[i] ) continue;
+            for (let j = 0; j < p.length; j++) {
+                next[i + j] += distribution[i] * p[j];
+            }
+        }
+        distribution = next;
+        distributionLow += low;
+
+        let term = 0;
+        for (let i = 0; i < distribution.length; i++) {
+            const s = i + distributionLow;
+            term += s<0 ? distribution[i] * Math.exp( lambda * s ) : distribution[i];
+        }
+
+        sigma += term / k;
+        if( term / k < 1e-8 ) break;
+    }
+
+    const K = lambda * Math.exp( -2 * sigma ) / ( H * ( 1 - Math.exp(-lambda) ) );
+
+    // back to the units of the scoring scheme
+    return { lambda: lambda / ( delta / scale ), K, H, gapped: false };
+}
+
+/**
+ * Raw score normalized by the scheme's λ and K, in bits
+ */
+export function bitScore( score:number, { lambda, K }:KarlinAltschul ) {
+    return ( lambda * score - Math.log(K) ) / Math.LN2;
+}
+
+/**
+ * Expected amount of hits scoring at least `score` when searching a space of `searchSpace` pairs of residues (length 1 * length 2)
+ */
+export function eValue( score:number, searchSpace:number, { lambda, K }:KarlinAltschul ) {
+    return K * searchSpace * Math.exp( -lambda * score );
+}
@@ -0,0 +1,125 @@
+import { Aligner, AlignmentMode, freeEndGaps, type AlignerOptions, type AlignmentResult } from "./Aligner";
+import { AlignmentMatrix, E_EXTENDS, F_EXTENDS, FROM_MASK, FROM_STOP, type BestCell } from "./DynamicProgramming";
+import { parseSequences } from "./SequenceFormats";
+
+/**
+ * Longest sequence the step by step mode takes: every cell gets drawn and labelled.
+ */
+export const stepByStepMaxLength = 30;
+
+/**
+ * One cell of the matrix as the fill computed it: the candidates of the recurrence and what won.
+ */
+export type FillStep = {
+    x:number
+    y:number
+    /** H of the cell up-left + the score of the pair of residues */
+    diagonal:number
+    /** E: best score ending with residue `x` of sequence 1 against a gap (coming from the left) */
+    left:number
+    /** F: best score ending with residue `y` of sequence 2 against a gap (coming from the top) */
+    top:number
+    /** H: the best of the 3 (floored at 0 in local mode) */
+    score:number
+    /** Local mode: nothing beats 0, a new alignment may start here */
+    reset:boolean
+    /** Traceback byte stored for the cell, see `FROM_DIAGONAL` and co. */
+    pointer:number
+}
+
+/**
+ * Everything the Aligner does for one pair of (small) sequences, kept cell by cell so it can be replayed.
+ */
+export type FillRecording = {
+    /** What the Aligner found: the best hit on the plus strand */
+    result:AlignmentResult
+    /** Columns and rows of the matrix, borders included */
+    W:number
+    H:number
+    /** H score of every cell at `x + y*W`, borders included */
+    scores:Float32Array
+    /** The inner cells in the order they are filled: row by row, left to right */
+    steps:FillStep[]
+    /** Cells (`x + y*W`) of the traceback, from where it starts (the best cell) back to the head of the alignment */
+    traceback:number[]
+}
+
+/**
+ * A traceback byte in words, like `↖ diagonal, F extends`
+ */
+export function describePointer( pointer:number ) {
+    const from = [ "stop", "↖ diagonal", "← left", "↑ top" ][ pointer & FROM_MASK ];
+    const gaps = [ pointer & E_EXTENDS ? "E extends" : "", pointer & F_EXTENDS ? "F extends" : "" ].filter(Boolean);
+
+    return [ from, ...gaps ].join(", ");
+}
+
+/**
+ * Aligns 2 small sequences (plus strand, best hit only) and records the fill of the matrix.
+ * @throws Error if a sequence is longer than `stepByStepMaxLength`
+ */
+export function recordFill( fasta1:string, fasta2:string, options:Pick<AlignerOptions, "alphabet" | "scoring" | "mode"> = {} ) :FillRecording {
+    // checked before aligning: this runs on the main thread
+    const longest = Math.max( ...[ fasta1, fasta2 ].map( fasta => parseSequences(fasta)[0]?.sequence.length ?? 0 ) );
+
+    if( longest > stepByStepMaxLength )
+    {
+        throw new Error(`Step by step takes sequences of up to ${ stepByStepMaxLength } residues, these have up to ${ longest }`);
+    }
+
+    const aligner = new Aligner(fasta1, fasta2, { ...options, bothStrands: false, maxHits: 1, shuffles: 0 });
+    const sequence1 = aligner.sequence1.sequence;
+    const sequence2 = aligner.sequence2.sequence;
+
+    // the same matrix the Aligner filled
+    const local = aligner.mode==AlignmentMode.Local;
+    const [ freeEnds1, freeEnds2 ] = freeEndGaps(aligner.mode);
+    const matrix = new AlignmentMatrix(sequence1, sequence2, aligner.scoring, aligner.alphabet, local, freeEnds1, freeEnds2);
+    const { W, H } = matrix;
+    const gapOpen = aligner.scoring.gap;
+    const gapExtend = aligner.scoring.gapExtend ?? gapOpen;
+
+    const scores = new Float32Array(W * H);
+    const steps:FillStep[] = [];
+    const traceback = new Uint8Array(W);
+    const best:BestCell = { score: local ? 0 : -Infinity, index: 0 };
+
+    const row = matrix.firstRow();
+    scores.set(row.H);
+
+    for (let y = 1; y < H; y++) {
+        const prevH = scores.subarray( (y-1)*W, y*W );
+
+        matrix.fillRows( row, y, y+1, traceback, best );
+        scores.set( row.H, y*W );
+
+        // E isn't kept by the matrix, it only depends on the cells to the left
+        let E = -Infinity;
+
+        for (let x = 1; x < W; x++) {
+            E = Math.max( row.H[x-1] - gapOpen, E - gapExtend );
+
+            steps.push({
+                x,
+                y,
+                diagonal: prevH[x-1] + matrix.pairScore(x, y),
+                left: E,
+                top: row.F[x],
+                score: row.H[x],
+                reset: local && traceback[x]==FROM_STOP,
+                pointer: traceback[x],
+            });
+        }
+    }
+
+    const result = aligner.toResult();
+
+    return {
+        result,
+        W,
+        H,
+        scores,
+        steps,
+        traceback: result.alignment.map( ({ iA, iB }) => (iA+1) + (iB+1)*W ).reverse(),
+    };
+}
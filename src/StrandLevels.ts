@@ -0,0 +1,413 @@
+import { BufferAttribute, BufferGeometry, Color, MathUtils, Matrix4, Ray, ShaderMaterial, Sphere, Vector3, type Camera, type Intersection, type Object3D, type PerspectiveCamera, type Raycaster } from "three";
+import { gcColor } from "./Palette";
+
+/** Turns of the spring around the circle */
+const springSpins = 112;
+
+/** Bins of a level hold this many points of the level below */
+const binFactor = 8;
+/** Coarsest level: it stops being binned below this many points */
+const minLevelPoints = 4096;
+/** Points of the strand a pixel may hold before they are binned */
+const minPointSpacing = .5;
+/** Levels with more points than this only draw the ones around where the camera looks */
+const windowedPoints = 50_000;
+/** Neighbours a point may cover: closer up points shrink, so residues don't hide each other */
+const maxOverlap = 16;
+/** Seconds a change of shape takes */
+const morphDuration = 1;
+
+/**
+ * Where a point goes in the spring shape: coiling around a circle of radius 1, `ratio` sets how far from it.
+ */
+function springPosition( angle:number, spins:number, ratio:number, target:Vector3 ) {
+    const coil = .2 * ratio;
+    const radius = 1 + Math.sin(angle * spins) * coil;
+
+    return target.set( Math.cos(angle) * radius, Math.sin(angle) * radius, Math.cos(angle * spins) * coil );
+}
+
+/**
+ * Where a point goes in the flat circle shape: strands with `ratio` under 1 sit just inside the circle of radius 1, `matched` (0 to 1) raises the point out of the plane.
+ */
+function circlePosition( angle:number, ratio:number, matched:number, target:Vector3 ) {
+    const radius = ratio < 1 ? 1 - .1 * ratio : ratio;
+
+    return target.set( Math.cos(angle) * radius, Math.sin(angle) * radius, matched * .03 );
+}
+
+/**
+ * Round, glowing points
+ */
+const pointFragmentShader = `
+    varying vec3 vColor;
+    uniform float time;
+
+    void main() {
+        vec2 uv = gl_PointCoord.xy - 0.5;
+        float dist = length(uv);
+        if (dist > 0.5) discard;
+        float alpha = 1.0;//1.0 - smoothstep(0.4, 0.5, dist);
+        float glow = exp(-dist * 3.0) * 0.5 + 0.5;
+        vec3 finalColor = vColor  * glow;
+        gl_FragColor = vec4(finalColor, alpha);
+    }
+`;
+
+/**
+ * Material of the points of a strand. Positions aren't attributes: the vertex shader places each point from its `angle` in both shapes (same math as `springPosition` and `circlePosition`)
+ * and blends them with the `morph` uniform (0: spring, 1: circle), so changing shape costs one uniform per frame whatever the length of the strand.
+ */
+function createStrandMaterial( ratio:number ) {
+    return new ShaderMaterial({
+        uniforms: {
+            time: { value: 0 },
+            pixelRatio: { value: Math.min(window.devicePixelRatio, 2) },
+            morph: { value: 0 },
+            ratio: { value: ratio },
+            spins: { value: springSpins },
+            sizeScale: { value: 1 },
+        },
+        vertexShader: `
+            attribute float angle;
+            attribute float matched;
+            attribute float size;
+            varying vec3 vColor;
+            uniform float pixelRatio;
+            uniform float morph;
+            uniform float ratio;
+            uniform float spins;
+            uniform float sizeScale;
+
+            void main() {
+                vec2 around = vec2(cos(angle), sin(angle));
+                float coil = 0.2 * ratio;
+                vec3 spring = vec3(around * (1.0 + sin(angle * spins) * coil), cos(angle * spins) * coil);
+                vec3 circle = vec3(around * (ratio < 1.0 ? 1.0 - 0.1 * ratio : ratio), matched * 0.03);
+
+                vColor = color;
+                vec4 mvPosition = modelViewMatrix * vec4(mix(spring, circle, morph), 1.0);
+                gl_PointSize = size * sizeScale * pixelRatio * (300.0 / -mvPosition.z);
+                gl_Position = projectionMatrix * mvPosition;
+            }
+        `,
+        fragmentShader: pointFragmentShader,
+        transparent: true,
+        vertexColors: true,
+    });
+}
+
+/**
+ * The points of a strand at one level of detail: each one stands for `binSize` points of the strand (1: every residue)
+ */
+type Level = {
+    binSize:number
+    geometry:BufferGeometry
+    /** What each bin holds, `sumsStride` numbers per bin (see `StrandLevels.refresh`), undefined for the residues */
+    sums?:Float32Array
+}
+
+/** Points, lit points, their colour (3), the other points' colour (3), GC residues, matched, biggest size */
+const sumsStride = 11;
+
+const _eye = new Vector3();
+const _look = new Vector3();
+const _point = new Vector3();
+const _ray = new Ray();
+const _sphere = new Sphere();
+const _inverse = new Matrix4();
+const _color = new Color();
+
+/**
+ * Draws the points of a strand at the level of detail the camera needs: far away, bins of residues become single points (coloured by what they hold: the hits, else their GC content),
+ * close up every residue shows, and only the ones around where the camera looks are drawn. Each level is a geometry of its own, the strand draws the one `choose` returns.
+ *
+ * Points are evenly spaced by angle, `stepAng` apart from `startAng`, so everything about a point (and a bin) comes from its index.
+ */
+export class StrandLevels {
+    readonly levels:Level[];
+    readonly material:ShaderMaterial;
+    /** Level being drawn */
+    private current = 0;
+    /** Shape blend (0: spring, 1: circle) and where it is going */
+    private morph = 0;
+    private targetMorph = 0;
+
+    /**
+     * @param colors, sizes, matched per point of the strand: the strand keeps writing to them, then calls `refresh`
+     * @param ratio of the shapes, see `springPosition` and `circlePosition`
+     * @param pointSize usual size of a point, for how much points overlap
+     */
+    constructor( readonly count:number, readonly startAng:number, readonly stepAng:number, readonly ratio:number, readonly pointSize:number, colors:Float32Array, sizes:Float32Array, matched:Float32Array )
+    {
+        this.material = createStrandMaterial(ratio);
+
+        const angles = new Float32Array(count);
+        for (let i = 0; i < count; i++) angles[i] = startAng + i * stepAng;
+
+        this.levels = [ { binSize: 1, geometry: this.createGeometry( angles, colors, sizes, matched ) } ];
+
+        for (let binSize = binFactor; Math.ceil( count / (binSize / binFactor) ) > minLevelPoints; binSize *= binFactor) {
+            const bins = Math.ceil( count / binSize );
+            const binAngles = new Float32Array(bins);
+
+            // in the middle of their points
+            for (let j = 0; j < bins; j++) {
+                const points = Math.min( binSize, count - j * binSize );
+                binAngles[j] = startAng + ( j * binSize + (points - 1) / 2 ) * stepAng;
+            }
+
+            this.levels.push({
+                binSize,
+                geometry: this.createGeometry( binAngles, new Float32Array(bins * 3), new Float32Array(bins), new Float32Array(bins) ),
+                sums: new Float32Array(bins * sumsStride),
+            });
+        }
+    }
+
+    private createGeometry( angles:Float32Array, colors:Float32Array, sizes:Float32Array, matched:Float32Array )
+    {
+        const geometry = new BufferGeometry();
+
+        geometry.setAttribute('angle', new BufferAttribute(angles, 1));
+        geometry.setAttribute('color', new BufferAttribute(colors, 3));
+        geometry.setAttribute('size', new BufferAttribute(sizes, 1));
+        geometry.setAttribute('matched', new BufferAttribute(matched, 1));
+
+        // no positions to count or bound the points with: the shader makes them
+        geometry.setDrawRange(0, angles.length);
+        geometry.boundingSphere = new Sphere( new Vector3(), 1 + .2 * Math.max(this.ratio, 1) );
+
+        return geometry;
+    }
+
+    /**
+     * Shapes blend from one to the other in `morphDuration`
+     */
+    morphTo( morph:number )
+    {
+        this.targetMorph = morph;
+    }
+
+    animate( delta:number )
+    {
+        if( this.morph==this.targetMorph ) return;
+
+        const step = delta / morphDuration;
+        this.morph = this.morph < this.targetMorph ? Math.min( this.morph + step, this.targetMorph ) : Math.max( this.morph - step, this.targetMorph );
+        this.material.uniforms.morph.value = MathUtils.smoothstep( this.morph, 0, 1 );
+    }
+
+    /**
+     * Picks the level for the camera: the finest one with no more than a couple of points per pixel at the points closest to the camera, around where it looks.
+     * Levels too big to draw whole only draw the points around where the camera looks, and the points of fine levels of long strands shrink to the space they have.
+     * @param strand the object drawing these levels
+     * @returns the geometry to draw
+     */
+    choose( strand:Object3D, camera:Camera, viewportHeight:number )
+    {
+        const perspective = camera as PerspectiveCamera;
+        const tan = Math.tan( MathUtils.degToRad( perspective.isPerspectiveCamera ? perspective.fov : 50 ) / 2 );
+        const aspect = perspective.isPerspectiveCamera ? perspective.aspect : 1;
+
+        // where the line of sight meets the plane of the strand, else under the camera
+        const eye = strand.worldToLocal( camera.getWorldPosition(_eye) );
+        const look = strand.worldToLocal( camera.getWorldDirection(_look).add( camera.getWorldPosition(_point) ) ).sub(eye);
+        const t = -eye.z / look.z;
+        const sighted = Number.isFinite(t) && t>0;
+        const center = sighted ? Math.atan2( eye.y + look.y * t, eye.x + look.x * t ) : Math.atan2( eye.y, eye.x );
+
+        // the strand leaves a gap, so the angle is the one of the turn around its middle
+        const middle = this.startAng + this.count * this.stepAng / 2;
+        const angle = middle + MathUtils.euclideanModulo( center - middle + Math.PI, Math.PI * 2 ) - Math.PI;
+
+        // to the points themselves: close up, the spring is far from the circle it coils around
+        const distance = Math.max( this.nearestDistance(eye, angle), this.stepAng / 100 );
+        const pixelsPerUnit = viewportHeight / ( 2 * tan * distance );
+
+        let level = this.levels.findIndex( ({ binSize }) => binSize * this.stepAng * pixelsPerUnit >= minPointSpacing );
+        if( level<0 ) level = this.levels.length - 1;
+
+        const { binSize, geometry } = this.levels[level];
+        const points = Math.ceil( this.count / binSize );
+        const halfAngle = 2 * tan * Math.max( distance, sighted ? look.length() * t : 0 ) * Math.max(aspect, 1);
+
+        if( points<=windowedPoints || halfAngle>=Math.PI )
+        {
+            geometry.setDrawRange(0, points);
+        }
+        else
+        {
+            const binAng = binSize * this.stepAng;
+            const first = MathUtils.clamp( Math.floor( (angle - halfAngle - this.startAng) / binAng ), 0, points );
+            const last = MathUtils.clamp( Math.ceil( (angle + halfAngle - this.startAng) / binAng ) + 1, 0, points );
+            geometry.setDrawRange(first, last - first);
+        }
+
+        this.material.uniforms.sizeScale.value = Math.min( 1, binSize * this.stepAng * maxOverlap / this.pointSize );
+        this.current = level;
+        return geometry;
+    }
+
+    /**
+     * Distance from `eye` to the closest point of the strand within a turn of the spring of `angle`: sampled, then sampled again around the closest sample, down to single points
+     */
+    private nearestDistance( eye:Vector3, angle:number )
+    {
+        const samples = 32;
+        const position = new Vector3();
+        let [ from, to ] = [ angle - Math.PI * 2 / springSpins, angle + Math.PI * 2 / springSpins ];
+        let nearest = Infinity;
+        let closest = angle;
+
+        for (let round = 0; round < 12; round++) {
+            const step = (to - from) / samples;
+
+            for (let k = 0; k <= samples; k++) {
+                const a = from + k * step;
+                const point = MathUtils.clamp( Math.round( (a - this.startAng) / this.stepAng ), 0, this.count - 1 );
+                const distance = eye.distanceTo( this.levelPosition( this.levels[0], point, position ) );
+
+                if( distance<nearest )
+                {
+                    nearest = distance;
+                    closest = a;
+                }
+            }
+
+            if( step<this.stepAng ) break;
+            [ from, to ] = [ closest - step, closest + step ];
+        }
+
+        return nearest;
+    }
+
+    /**
+     * The point of the strand a point of a level stands for: the one in the middle of its bin
+     */
+    private binPoint( binSize:number, index:number )
+    {
+        return index * binSize + Math.floor( ( Math.min( binSize, this.count - index * binSize ) - 1 ) / 2 );
+    }
+
+    private levelPosition( { geometry }:Level, index:number, target:Vector3 )
+    {
+        const angle = geometry.attributes.angle.array[index];
+        const matched = geometry.attributes.matched.array[index];
+        const morph = this.material.uniforms.morph.value as number;
+
+        const spring = springPosition( angle, springSpins, this.ratio, _point );
+        return circlePosition( angle, this.ratio, matched, target ).lerp( spring, 1 - morph );
+    }
+
+    /**
+     * Where a point of the strand is right now (shapes animate), in the coordinates of the strand
+     */
+    position( point:number, target:Vector3 )
+    {
+        return this.levelPosition( this.levels[0], point, target );
+    }
+
+    /**
+     * Raycasting of the points drawn, like `Points.raycast` (the geometry has no positions for it): each intersection's `index` is the point of the strand it stands for.
+     */
+    raycast( strand:Object3D, raycaster:Raycaster, intersects:Intersection[] )
+    {
+        const level = this.levels[this.current];
+        const { start, count } = level.geometry.drawRange;
+
+        _sphere.copy( level.geometry.boundingSphere! ).applyMatrix4( strand.matrixWorld );
+        if( !raycaster.ray.intersectsSphere(_sphere) ) return;
+
+        _inverse.copy( strand.matrixWorld ).invert();
+        _ray.copy( raycaster.ray ).applyMatrix4(_inverse);
+
+        const threshold = raycaster.params.Points.threshold / ( ( strand.scale.x + strand.scale.y + strand.scale.z ) / 3 );
+        const position = new Vector3();
+
+        for (let i = start; i < start + count; i++) {
+            const distanceSq = _ray.distanceSqToPoint( this.levelPosition(level, i, position) );
+            if( distanceSq>=threshold * threshold ) continue;
+
+            const point = _ray.closestPointToPoint( position, new Vector3() ).applyMatrix4( strand.matrixWorld );
+            const distance = raycaster.ray.origin.distanceTo(point);
+            if( distance<raycaster.near || distance>raycaster.far ) continue;
+
+            intersects.push({ distance, distanceToRay: Math.sqrt(distanceSq), point, index: this.binPoint(level.binSize, i), face: null, object: strand });
+        }
+    }
+
+    /**
+     * The colours, sizes or matches of the strand's points changed: updates the bins. A bin takes the average colour of its lit points (the ones showing how they aligned) so hits
+     * stay visible from afar, without any the colour of its GC content (`gc` set, DNA) or the average colour of its points. Its size is the one of its biggest point (highlights show).
+     * @param lit the points showing how they aligned
+     * @param gc the G, C (and S) residues
+     */
+    refresh( lit:Uint8Array, gc?:Uint8Array )
+    {
+        const [ residues, ...bins ] = this.levels;
+        const { color, size, matched } = residues.geometry.attributes;
+        [ color, size, matched ].forEach( attribute => attribute.needsUpdate = true );
+
+        const colors = color.array;
+        const sizes = size.array;
+        const matches = matched.array;
+        let below = residues;
+
+        for (const level of bins) {
+            const sums = level.sums!.fill(0);
+            const factor = level.binSize / below.binSize;
+            const children = Math.ceil( this.count / below.binSize );
+
+            for (let c = 0; c < children; c++) {
+                const o = Math.floor( c / factor ) * sumsStride;
+
+                if( below.sums )
+                {
+                    // the bins of the level below
+                    const b = c * sumsStride;
+                    for (let k = 0; k < sumsStride - 1; k++) sums[o + k] += below.sums[b + k];
+                    sums[o + 10] = Math.max( sums[o + 10], below.sums[b + 10] );
+                    continue;
+                }
+
+                sums[o]++;
+                const offset = o + ( lit[c] ? 2 : 5 );
+                if( lit[c] ) sums[o + 1]++;
+                for (let k = 0; k < 3; k++) sums[offset + k] += colors[c * 3 + k];
+                sums[o + 8] += gc?.[c] ?? 0;
+                sums[o + 9] += matches[c];
+                sums[o + 10] = Math.max( sums[o + 10], sizes[c] );
+            }
+
+            this.paintBins( level, gc!==undefined );
+            below = level;
+        }
+    }
+
+    private paintBins( { geometry, sums }:Level, byGC:boolean )
+    {
+        const { color, size, matched } = geometry.attributes;
+
+        for (let j = 0; j < size.count; j++) {
+            const o = j * sumsStride;
+            const [ points, litPoints ] = [ sums![o], sums![o + 1] ];
+
+            if( litPoints>0 ) _color.setRGB( sums![o + 2] / litPoints, sums![o + 3] / litPoints, sums![o + 4] / litPoints );
+            else if( byGC ) gcColor( sums![o + 8] / points, _color );
+            else _color.setRGB( sums![o + 5] / points, sums![o + 6] / points, sums![o + 7] / points );
+
+            _color.toArray( color.array, j * 3 );
+            matched.array[j] = sums![o + 9] / points;
+            size.array[j] = sums![o + 10];
+        }
+
+        [ color, size, matched ].forEach( attribute => attribute.needsUpdate = true );
+    }
+
+    dispose()
+    {
+        this.levels.forEach( level => level.geometry.dispose() );
+        this.material.dispose();
+    }
+}
@@ -0,0 +1,271 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { Aligner, AlignmentError, AlignmentMode, type AlignerOptions, type AlignmentResult } from "./Aligner";
+import { Alphabet } from "./Alphabet";
+import { formatJson, formatPair, samHeader, samRecords } from "./Export";
+import { SequenceParseError, type FastaRecord } from "./Fasta";
+import { formatRecord, parseSequences, SequenceFormat } from "./SequenceFormats";
+import { ScoringPresets, type ScoringPresetName, type ScoringScheme } from "./Scoring";
+import { parseSubstitutionMatrix, SubstitutionMatrices } from "./SubstitutionMatrix";
+
+/**
+ * Exit codes
+ */
+enum Exit {
+    Ok = 0,
+    /** An input could not be read or parsed */
+    ParseError = 1,
+    /** Bad arguments, scoring the Aligner rejects included */
+    Usage = 2,
+}
+
+const usage = `Usage: dna-align [options] [a.fasta] [b.fasta]
+
+Aligns every record of a.fasta against every record of b.fasta.
+With a single file, every pair of its records. Without files, or with "-", reads stdin.
+Inputs may be FASTA, GenBank, EMBL, FASTQ or bare sequences (detected from their first line).
+
+Options:
+  --mode <mode>          local (default), global, glocalIn1, glocalIn2, overlap
+  --preset <name>        ${ Object.keys(ScoringPresets).join(", ") }
+  --match <n>            score of a match
+  --mismatch <n>         score of a mismatch
+  --gap-open <n>         cost of the first position of a gap (or of every position, without --gap-extend)
+  --gap-extend <n>       cost of the next positions of a gap (affine gaps)
+  --matrix <name|file>   ${ Object.keys(SubstitutionMatrices).join(", ") }, or a matrix file in NCBI format
+  --alphabet <alphabet>  nucleotide or protein (detected if not set)
+  --plus-strand          don't search the reverse complement of b
+  --hits <n>             report up to n local alignments per pair
+  --shuffles <n>         empirical p-value from n shuffled realignments
+  --seed-and-extend      local mode: heuristic search for long subjects (k-mer seeds, banded extension)
+  --word-size <n>        seed word length (default 11 for nucleotides, 3 for proteins)
+  --band <n>             cells searched on each side of a chain of seeds (default 32)
+  --format <format>      pair (default), json (one document per line) or sam
+  --input-format <fmt>   fasta, genbank, embl, fastq or raw, instead of detecting it
+  -h, --help             show this help
+`;
+
+class UsageError extends Error {}
+class InputError extends Error {}
+
+function fail( message:string, code:Exit ) :never {
+    process.stderr.write(`dna-align: ${ message }\n`);
+    if( code==Exit.Usage ) process.stderr.write(`Try "dna-align --help"\n`);
+    process.exit(code);
+}
+
+function number( value:string | undefined, name:string ) {
+    if( value===undefined ) return undefined;
+    const parsed = Number(value);
+    if( value.trim()=="" || Number.isNaN(parsed) ) throw new UsageError(`--${ name } expects a number, got "${ value }"`);
+    return parsed;
+}
+
+/**
+ * Matches an enum key ignoring case, like `glocalin1` to `AlignmentMode.GlocalIn1`
+ */
+function enumValue<T extends Record<string, string | number>>( values:T, value:string, name:string ) :T[keyof T] {
+    const key = Object.keys(values).find( key => isNaN(Number(key)) && key.toLowerCase()==value.toLowerCase() );
+    if( !key ) throw new UsageError(`unknown ${ name } "${ value }"`);
+    return values[key as keyof T];
+}
+
+/**
+ * Reads and parses an input ("-" is stdin) in any of the `SequenceFormat`s. Records without residues, or with characters that can't be residues, are parse errors.
+ * @param format detected if not given
+ */
+function readRecords( path:string, format?:SequenceFormat ) :FastaRecord[] {
+    let text:string;
+
+    try
+    {
+        text = readFileSync( path=="-" ? 0 : path, "utf8" );
+    }
+    catch( error )
+    {
+        throw new InputError(`can't read ${ path }: ${ (error as Error).message }`);
+    }
+
+    const source = path=="-" ? "stdin" : path;
+    let records:FastaRecord[];
+
+    try
+    {
+        records = parseSequences(text, format);
+    }
+    catch( error )
+    {
+        if( error instanceof SequenceParseError ) throw new InputError(`${ source }:${ error.line }:${ error.column }: ${ error.message }`);
+        throw error;
+    }
+
+    if( !records.length ) throw new InputError(`${ source }: no records found`);
+
+    for (const record of records) {
+        const name = record.id || "(unnamed record)";
+        if( !record.sequence ) throw new InputError(`${ source }:${ record.line }: record ${ name } has no residues`);
+    }
+
+    return records;
+}
+
+function scoringFrom( values:Record<string, string | boolean | undefined> ) :ScoringScheme | undefined {
+    const preset = values.preset as string | undefined;
+    if( preset!==undefined && !(preset in ScoringPresets) ) throw new UsageError(`unknown preset "${ preset }"`);
+
+    const base:ScoringScheme | undefined = preset ? ScoringPresets[preset as ScoringPresetName] : undefined;
+
+    const match = number(values.match as string | undefined, "match");
+    const mismatch = number(values.mismatch as string | undefined, "mismatch");
+    const gap = number(values["gap-open"] as string | undefined, "gap-open");
+    const gapExtend = number(values["gap-extend"] as string | undefined, "gap-extend");
+    const matrixName = values.matrix as string | undefined;
+
+    // nothing set: let the Aligner pick the default for the alphabet
+    if( !base && match===undefined && mismatch===undefined && gap===undefined && gapExtend===undefined && matrixName===undefined ) return;
+
+    const scoring:ScoringScheme = { ...( base ?? ScoringPresets.default ) };
+
+    if( match!==undefined ) scoring.match = match;
+    if( mismatch!==undefined ) scoring.mismatch = mismatch;
+    if( gap!==undefined ) scoring.gap = gap;
+    if( gapExtend!==undefined ) scoring.gapExtend = gapExtend;
+
+    if( matrixName!==undefined )
+    {
+        if( matrixName in SubstitutionMatrices )
+        {
+            scoring.matrix = SubstitutionMatrices[matrixName];
+        }
+        else
+        {
+            try
+            {
+                scoring.matrix = parseSubstitutionMatrix( readFileSync(matrixName, "utf8"), matrixName );
+            }
+            catch( error )
+            {
+                throw new InputError(`matrix ${ matrixName }: ${ (error as Error).message }`);
+            }
+        }
+    }
+
+    return scoring;
+}
+
+function main( args:string[] ) {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            mode: { type: "string" },
+            preset: { type: "string" },
+            match: { type: "string" },
+            mismatch: { type: "string" },
+            "gap-open": { type: "string" },
+            "gap-extend": { type: "string" },
+            matrix: { type: "string" },
+            alphabet: { type: "string" },
+            "plus-strand": { type: "boolean" },
+            hits: { type: "string" },
+            shuffles: { type: "string" },
+            "seed-and-extend": { type: "boolean" },
+            "word-size": { type: "string" },
+            band: { type: "string" },
+            format: { type: "string", default: "pair" },
+            "input-format": { type: "string" },
+            help: { type: "boolean", short: "h" },
+        },
+    });
+
+    if( values.help )
+    {
+        process.stdout.write(usage);
+        return;
+    }
+
+    if( positionals.length > 2 ) throw new UsageError(`expected at most 2 inputs, got ${ positionals.length }`);
+
+    const format = values.format!;
+    if( ![ "pair", "json", "sam" ].includes(format) ) throw new UsageError(`unknown format "${ format }"`);
+
+    const inputFormat = values["input-format"]===undefined ? undefined : enumValue(SequenceFormat, values["input-format"], "input format");
+
+    const options:AlignerOptions = {
+        scoring: scoringFrom(values),
+        mode: values.mode===undefined ? undefined : enumValue(AlignmentMode, values.mode, "mode"),
+        alphabet: values.alphabet===undefined ? undefined : enumValue(Alphabet, values.alphabet, "alphabet"),
+        bothStrands: !values["plus-strand"],
+        maxHits: number(values.hits, "hits"),
+        shuffles: number(values.shuffles, "shuffles"),
+        heuristic: values["seed-and-extend"] ? { wordSize: number(values["word-size"], "word-size"), bandWidth: number(values.band, "band") } : undefined,
+    };
+
+    if( !values["seed-and-extend"] && ( values["word-size"]!==undefined || values.band!==undefined ) ) throw new UsageError(`--word-size and --band need --seed-and-extend`);
+
+    //
+    // pairs to align: all of a against all of b, or every pair within a single input
+    //
+    const pairs:[ FastaRecord, FastaRecord ][] = [];
+
+    if( positionals.length==2 )
+    {
+        if( positionals[0]=="-" && positionals[1]=="-" ) throw new UsageError(`stdin can only be one of the inputs`);
+
+        const recordsA = readRecords(positionals[0], inputFormat);
+        const recordsB = readRecords(positionals[1], inputFormat);
+
+        for (const a of recordsA) {
+            for (const b of recordsB) {
+                pairs.push([ a, b ]);
+            }
+        }
+    }
+    else
+    {
+        const records = readRecords( positionals[0] ?? "-", inputFormat );
+        if( records.length < 2 ) throw new InputError(`a single input needs at least 2 records to align, it has ${ records.length }`);
+
+        for (let i = 0; i < records.length; i++) {
+            for (let j = i + 1; j < records.length; j++) {
+                pairs.push([ records[i], records[j] ]);
+            }
+        }
+    }
+
+    const results:AlignmentResult[] = pairs.map( ([ a, b ]) => new Aligner( formatRecord(a), formatRecord(b), options ).toResult() );
+
+    switch( format )
+    {
+        case "json":
+            process.stdout.write( results.map( result => formatJson(result, 0) + "\n" ).join("") );
+            break;
+
+        case "sam": {
+            // every distinct reference once in the header
+            const references = [ ...new Map( results.map( result => [ result.sequence1.name, result.sequence1 ] ) ).values() ];
+            const lines = [ ...samHeader(references), ...results.flatMap(samRecords) ];
+            process.stdout.write( lines.join("\n") + "\n" );
+            break;
+        }
+
+        default:
+            process.stdout.write( results.map( result => formatPair(result) ).join("\n\n") + "\n" );
+    }
+}
+
+try
+{
+    main( process.argv.slice(2) );
+}
+catch( error )
+{
+    if( error instanceof InputError ) fail(error.message, Exit.ParseError);
+    if( error instanceof AlignmentError ) fail(error.message, Exit.Usage);
+
+    // parseArgs throws TypeErrors with a code for unknown/malformed options
+    if( error instanceof UsageError || ( error as { code?:string }).code?.startsWith("ERR_PARSE_ARGS") ) fail((error as Error).message, Exit.Usage);
+
+    throw error;
+}